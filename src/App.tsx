@@ -20,6 +20,7 @@ export function App() {
           <NavLink to="/grammar" className={({ isActive }) => isActive ? 'nav-link active' : 'nav-link'}>Ngữ pháp</NavLink>
           <NavLink to="/notes" className={({ isActive }) => isActive ? 'nav-link active' : 'nav-link'}>Note</NavLink>
           <NavLink to="/sentences" className={({ isActive }) => isActive ? 'nav-link active' : 'nav-link'}>Câu</NavLink>
+          <NavLink to="/review" className={({ isActive }) => isActive ? 'nav-link active' : 'nav-link'}>Ôn tập</NavLink>
         </nav>
       </header>
       <main className="main">
@@ -1,5 +1,7 @@
 import { useState } from 'react';
 import type { StudyItem } from '../types';
+import { getStudyLanguage } from '../utils/language';
+import { romanizeItem } from '../utils/romanize';
 
 type EditItemModalProps = {
   item: StudyItem | null;
@@ -43,6 +45,18 @@ export function EditItemModal({ item, onClose, onSave }: EditItemModalProps) {
             <span className="label">Tiếng Hàn</span>
             <input className="cell-input" value={form.korean} onChange={(e) => handleChange('korean', e.target.value)} />
           </label>
+          {getStudyLanguage() === 'ja' && (
+            <label style={{ display:'grid', gap:4 }}>
+              <span className="label">Cách đọc (kana)</span>
+              <input className="cell-input" value={form.reading ?? ''} onChange={(e) => handleChange('reading', e.target.value)} placeholder="たべる" />
+            </label>
+          )}
+          {getStudyLanguage() === 'ko' && (
+            <label style={{ display:'grid', gap:4 }}>
+              <span className="label">Phiên âm (tự động: {romanizeItem(form) || '—'})</span>
+              <input className="cell-input" value={form.romanization ?? ''} onChange={(e) => handleChange('romanization', e.target.value)} />
+            </label>
+          )}
           <label style={{ display:'grid', gap:4 }}>
             <span className="label">Tiếng Việt</span>
             <input className="cell-input" value={form.vietnamese} onChange={(e) => handleChange('vietnamese', e.target.value)} />
@@ -1,52 +1,61 @@
 import { useEffect, useMemo, useState } from 'react';
-import type { StudyItem } from '../types';
+import type { CardCategory, StudyItem } from '../types';
 import { normalizeNewlines } from '../utils/text';
-import { speakKorean } from '../utils/speech';
+import { speak } from '../utils/speech';
+import { progressRepository, furiganaRepository, onStorageSync } from '../utils/storage';
+import { getStudyLanguage } from '../utils/language';
+import { reconcileDeck } from '../utils/deck';
+import { reviewItem, resetReview, getLearnedIds, QUALITY_CORRECT, QUALITY_WRONG, type ReviewState, type Schedule } from '../utils/srs';
+import { summarizeSession, type SessionAttempt } from '../utils/session';
+import { SessionReport } from './SessionReport';
+import { Furigana } from './Furigana';
+import { Romanization } from './Romanization';
 
 type FlashcardModalProps = {
   items: StudyItem[];
   onClose: () => void;
-  storageKey?: string;
+  category: CardCategory;
+  cardId?: string;
 };
 
-export function FlashcardModal({ items, onClose, storageKey = 'korean-study:flashcards:general' }: FlashcardModalProps) {
+export function FlashcardModal({ items, onClose, category, cardId }: FlashcardModalProps) {
   const [shuffledDeck, setShuffledDeck] = useState<StudyItem[]>([]);
   const [index, setIndex] = useState(0);
-  const [learnedIds, setLearnedIds] = useState<Set<string>>(() => {
-    try {
-      const raw = localStorage.getItem(storageKey);
-      if (!raw) return new Set();
-      const parsed = JSON.parse(raw) as { ids: string[]; savedAt: number };
-      const EIGHT_HOURS_MS = 8 * 60 * 60 * 1000;
-      if (!parsed || !Array.isArray(parsed.ids) || !parsed.savedAt || Date.now() - parsed.savedAt > EIGHT_HOURS_MS) {
-        localStorage.removeItem(storageKey);
-        return new Set();
-      }
-      return new Set(parsed.ids);
-    } catch {
-      return new Set();
-    }
-  });
+  const [schedule, setSchedule] = useState<Schedule>(() => progressRepository.load('flashcards', category, cardId));
+  const learnedIds = useMemo(() => getLearnedIds(schedule), [schedule]);
   const [viewedIds, setViewedIds] = useState<Set<string>>(new Set());
   const [cardFlipStates, setCardFlipStates] = useState<Map<string, boolean>>(new Map());
   const [isFlipped, setIsFlipped] = useState(false);
+  // "Đã thuộc"/"Chưa thuộc" marks of this run, for the report
+  const [sessionStart, setSessionStart] = useState(() => Date.now());
+  const [attempts, setAttempts] = useState<SessionAttempt[]>([]);
+  const [showSummary, setShowSummary] = useState(false);
+  // Set by "retry misses": only the cards marked unknown in the last run
+  const [onlyIds, setOnlyIds] = useState<Set<string> | null>(null);
+  const [hideFurigana, setHideFurigana] = useState(() => furiganaRepository.isHidden());
+
+  // Progress recorded in another tab shows up here right away
+  useEffect(() => onStorageSync(change => {
+    if (progressRepository.isAffected(change, category, cardId)) {
+      setSchedule(progressRepository.load('flashcards', category, cardId));
+    }
+  }), [category, cardId]);
 
   // Initialize shuffled deck when items change
   useEffect(() => {
     const deckAll = items.filter(i => i.korean || i.vietnamese || i.english);
     if (deckAll.length > 0) {
-      // Shuffle the deck
-      const shuffled = [...deckAll].sort(() => Math.random() - 0.5);
-      setShuffledDeck(shuffled);
-      setIndex(0);
+      // Shuffled once; items reloaded from another tab keep their place
+      setShuffledDeck(prev => reconcileDeck(prev, deckAll));
     }
   }, [items]);
 
-  const deck = useMemo(() => shuffledDeck, [shuffledDeck]); // Show all cards including learned ones
+  // Show all cards including learned ones
+  const deck = useMemo(() => onlyIds ? shuffledDeck.filter(i => onlyIds.has(i.id)) : shuffledDeck, [shuffledDeck, onlyIds]);
   const totalAll = shuffledDeck.length;
   const learned = learnedIds.size;
   const notLearned = Math.max(0, totalAll - learned);
-  const current = deck[index];
+  const current = deck[index] ?? deck[deck.length - 1];
 
   // Update flip state when current card changes
   useEffect(() => {
@@ -60,6 +69,8 @@ export function FlashcardModal({ items, onClose, storageKey = 'korean-study:flas
   if (shuffledDeck.length === 0) return null;
   if (!current) return null;
 
+  const summary = summarizeSession(attempts, sessionStart);
+
   function goNext() {
     const len = deck.length;
     if (len === 0) return;
@@ -72,24 +83,52 @@ export function FlashcardModal({ items, onClose, storageKey = 'korean-study:flas
     setIndex(prev => (prev - 1 + len) % len);
   }
 
+  function updateSchedule(itemId: string, update: (state: ReviewState | undefined) => ReviewState | undefined): Schedule {
+    const next = progressRepository.updateItem('flashcards', category, itemId, update, cardId);
+    setSchedule(next);
+    return next;
+  }
+
+  function recordAttempt(correct: boolean) {
+    setAttempts(prev => [...prev, { item: current, answer: '', correct, hintsUsed: 0, answeredAt: Date.now() }]);
+  }
+
+  // Make this run's misses due again, or ones learned later in the run would end the retry at once
+  function retryMisses() {
+    const missedIds = new Set(attempts.filter(a => !a.correct).map(a => a.item.id));
+    missedIds.forEach(id => updateSchedule(id, resetReview));
+    setOnlyIds(missedIds);
+    setAttempts([]);
+    setSessionStart(Date.now());
+    setShowSummary(false);
+    setIndex(0);
+  }
+
   function markKnown() {
     if (!current || !current.id) return;
-    setLearnedIds(prev => {
-      const next = new Set(prev);
-      next.add(current.id);
-      try {
-        localStorage.setItem(storageKey, JSON.stringify({ ids: Array.from(next), savedAt: Date.now() }));
-      } catch { }
-      return next;
-    });
+    const next = updateSchedule(current.id, state => reviewItem(state, QUALITY_CORRECT));
+    recordAttempt(true);
+    // The run is over once every card in the deck is learned
+    const nextLearned = getLearnedIds(next);
+    if (deck.every(i => nextLearned.has(i.id))) setShowSummary(true);
     // move index but respect updated deck on next render
     setIndex(prev => (prev >= deck.length - 1 ? 0 : prev));
   }
 
   function markUnknown() {
+    if (current && current.id) {
+      // Bring the card back soon instead of leaving it untouched
+      updateSchedule(current.id, state => reviewItem(state, QUALITY_WRONG));
+      recordAttempt(false);
+    }
     goNext();
   }
 
+  function changeHideFurigana(hidden: boolean) {
+    setHideFurigana(hidden);
+    furiganaRepository.setHidden(hidden);
+  }
+
   function toggleFlip() {
     if (!current || !current.id) return;
     
@@ -160,12 +199,32 @@ export function FlashcardModal({ items, onClose, storageKey = 'korean-study:flas
               <span className="value">{viewedIds.size}/{totalAll}</span>
             </div>
           </div>
+          {getStudyLanguage() === 'ja' && (
+            <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 13, marginTop: 6 }}>
+              <input type="checkbox" checked={hideFurigana} onChange={(e) => changeHideFurigana(e.target.checked)} />
+              Ẩn furigana ở mặt trước
+            </label>
+          )}
         </div>
         <div style={{ flex: '1 1 auto', display: 'flex', flexDirection: 'column', minHeight: 0 }}>
           {totalAll === 0 ? (
             <div style={{ padding: 16, border: '1px solid #22305c', borderRadius: 8, marginBottom: 12, background: 'rgba(255,255,255,0.02)' }}>
               Không có thẻ nào để học.
             </div>
+          ) : showSummary ? (
+            <div style={{ overflowY: 'auto', minHeight: 0 }}>
+              <SessionReport
+                summary={summary}
+                title={learned === totalAll ? '🎉 Bạn đã thuộc tất cả thẻ!' : 'Tổng kết phiên học'}
+                missedItems={summary.missed.map(m => m.item)}
+                category={category === 'vocab' || category === 'grammar' ? category : undefined}
+                cardId={cardId}
+                fileName={`missed_flashcards_${category}_${cardId ?? 'all'}.csv`}
+                onRetryMisses={retryMisses}
+              >
+                <button className="btn" onClick={() => setShowSummary(false)}>Tiếp tục học</button>
+              </SessionReport>
+            </div>
           ) : (
             <div
               className="card flashcard-container"
@@ -207,19 +266,20 @@ export function FlashcardModal({ items, onClose, storageKey = 'korean-study:flas
                 }}
               >
                 <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
-                  <span style={{ fontSize: 'clamp(18px, 4vw, 22px)', fontWeight: 700, textAlign: 'center', margin:0 as any, whiteSpace:'pre-wrap', display:'block', lineHeight: '1.3' }}>
-                    {normalizeNewlines(current.korean)}
+                  <span style={{ fontSize: 'clamp(18px, 4vw, 22px)', fontWeight: 700, textAlign: 'center', margin:0 as any, whiteSpace:'pre-wrap', display:'block', lineHeight: current.reading && !hideFurigana ? '1.8' : '1.3' }}>
+                    <Furigana text={normalizeNewlines(current.korean)} reading={current.reading} hidden={hideFurigana} />
                   </span>
                   <button
                     className="btn small"
                     type="button"
-                    onClick={() => speakKorean(current.korean)}
-                    title="Phát âm tiếng Hàn"
+                    onClick={() => speak(current.korean)}
+                    title="Phát âm"
                     style={{ flexShrink: 0, padding: '4px 8px' }}
                   >
                     🔊
                   </button>
                 </div>
+                <Romanization item={current} style={{ textAlign: 'center', marginTop: 4 }} />
                 {learnedIds.has(current.id) && (
                   <div style={{ 
                     position: 'absolute', 
@@ -252,19 +312,20 @@ export function FlashcardModal({ items, onClose, storageKey = 'korean-study:flas
                 }}
               >
                 <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 6 }}>
-                  <span style={{ fontSize: 'clamp(16px, 3.5vw, 18px)', fontWeight: 600, whiteSpace:'pre-wrap', lineHeight: '1.3' }}>
-                    {normalizeNewlines(current.korean)}
+                  <span style={{ fontSize: 'clamp(16px, 3.5vw, 18px)', fontWeight: 600, whiteSpace:'pre-wrap', lineHeight: current.reading ? '1.8' : '1.3' }}>
+                    <Furigana text={normalizeNewlines(current.korean)} reading={current.reading} />
                   </span>
                   <button
                     className="btn small"
                     type="button"
-                    onClick={() => speakKorean(current.korean)}
-                    title="Phát âm tiếng Hàn"
+                    onClick={() => speak(current.korean)}
+                    title="Phát âm"
                     style={{ flexShrink: 0, padding: '4px 8px' }}
                   >
                     🔊
                   </button>
                 </div>
+                <Romanization item={current} style={{ marginBottom: 6 }} />
                 <span style={{ color: '#555', whiteSpace:'pre-wrap', fontSize: 'clamp(14px, 3vw, 16px)', lineHeight: '1.4' }}>{normalizeNewlines(current.vietnamese)}</span>
                 <span style={{ color: '#777', whiteSpace:'pre-wrap', fontSize: 'clamp(13px, 2.8vw, 15px)', lineHeight: '1.4' }}>{normalizeNewlines(current.english)}</span>
                 {learnedIds.has(current.id) && (
@@ -309,7 +370,7 @@ export function FlashcardModal({ items, onClose, storageKey = 'korean-study:flas
           )}
         </div>
         <div style={{ flex: '0 0 auto', display: 'flex', gap: '6px', justifyContent: 'space-between', alignItems: 'center', marginTop: '12px', flexWrap: 'wrap' }}>
-          <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap' }}>
+          <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap', visibility: showSummary ? 'hidden' : 'visible' }}>
             <button 
               className="btn" 
               onClick={goPrev}
@@ -342,67 +403,76 @@ export function FlashcardModal({ items, onClose, storageKey = 'korean-study:flas
             </button>
           </div>
           <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap', justifyContent: 'flex-end' }}>
-            <button 
-              className="btn" 
-              onClick={toggleFlip}
-              style={{ 
-                padding: '6px 10px', 
-                fontSize: 'clamp(12px, 2.5vw, 14px)',
-                minWidth: 'auto'
-              }}
-            >
-              Lật thẻ
-            </button>
-            {current && current.id && !learnedIds.has(current.id) && (
+            {!showSummary && (
               <>
                 <button 
                   className="btn" 
-                  onClick={markUnknown}
+                  onClick={toggleFlip}
                   style={{ 
                     padding: '6px 10px', 
                     fontSize: 'clamp(12px, 2.5vw, 14px)',
                     minWidth: 'auto'
                   }}
                 >
-                  Chưa thuộc
+                  Lật thẻ
                 </button>
-                <button 
-                  className="btn" 
-                  onClick={markKnown}
-                  style={{ 
-                    padding: '6px 10px', 
+                {current && current.id && !learnedIds.has(current.id) && (
+                  <>
+                    <button 
+                      className="btn" 
+                      onClick={markUnknown}
+                      style={{ 
+                        padding: '6px 10px', 
+                        fontSize: 'clamp(12px, 2.5vw, 14px)',
+                        minWidth: 'auto'
+                      }}
+                    >
+                      Chưa thuộc
+                    </button>
+                    <button 
+                      className="btn" 
+                      onClick={markKnown}
+                      style={{ 
+                        padding: '6px 10px', 
+                        fontSize: 'clamp(12px, 2.5vw, 14px)',
+                        minWidth: 'auto'
+                      }}
+                    >
+                      Đã thuộc
+                    </button>
+                  </>
+                )}
+                {current && current.id && learnedIds.has(current.id) && (
+                  <button 
+                    className="btn" 
+                    onClick={() => {
+                      if (!current || !current.id) return;
+                      updateSchedule(current.id, state => resetReview(state));
+                    }}
+                    style={{ 
+                      background: '#f44336', 
+                      padding: '6px 10px', 
+                      fontSize: 'clamp(12px, 2.5vw, 14px)',
+                      minWidth: 'auto'
+                    }}
+                  >
+                    Bỏ đánh dấu
+                  </button>
+                )}
+                <button
+                  className="btn"
+                  onClick={() => setShowSummary(true)}
+                  disabled={attempts.length === 0}
+                  style={{
+                    padding: '6px 10px',
                     fontSize: 'clamp(12px, 2.5vw, 14px)',
                     minWidth: 'auto'
                   }}
                 >
-                  Đã thuộc
+                  Tổng kết
                 </button>
               </>
             )}
-            {current && current.id && learnedIds.has(current.id) && (
-              <button 
-                className="btn" 
-                onClick={() => {
-                  if (!current || !current.id) return;
-                  setLearnedIds(prev => {
-                    const next = new Set(prev);
-                    next.delete(current.id);
-                    try {
-                      localStorage.setItem(storageKey, JSON.stringify({ ids: Array.from(next), savedAt: Date.now() }));
-                    } catch { }
-                    return next;
-                  });
-                }}
-                style={{ 
-                  background: '#f44336', 
-                  padding: '6px 10px', 
-                  fontSize: 'clamp(12px, 2.5vw, 14px)',
-                  minWidth: 'auto'
-                }}
-              >
-                Bỏ đánh dấu
-              </button>
-            )}
             <button 
               className="btn" 
               onClick={onClose}
@@ -0,0 +1,25 @@
+import { rubySegments } from '../utils/furigana';
+
+type FuriganaProps = {
+  text: string;
+  reading?: string;
+  hidden?: boolean; // while testing, so the reading is not given away
+};
+
+// Japanese word with its reading as <ruby> over the kanji; plain text without a reading
+export function Furigana({ text, reading, hidden }: FuriganaProps) {
+  if (hidden || !reading) return <>{text}</>;
+
+  return (
+    <>
+      {rubySegments(text, reading).map((segment, i) => segment.ruby ? (
+        <ruby key={i}>
+          {segment.text}
+          <rp>(</rp><rt style={{ fontSize: '0.55em', fontWeight: 400 }}>{segment.ruby}</rt><rp>)</rp>
+        </ruby>
+      ) : (
+        <span key={i}>{segment.text}</span>
+      ))}
+    </>
+  );
+}
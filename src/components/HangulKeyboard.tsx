@@ -0,0 +1,145 @@
+import { useCallback, useEffect, useState } from 'react';
+import { keyboardRepository } from '../utils/storage';
+import { KEYBOARD_ROWS, deleteJamo, jamoForKey, typeJamo } from '../utils/hangulInput';
+
+type HangulKeyboardProps = {
+  inputRef: React.RefObject<HTMLInputElement | null>;
+  // Receives an updater for the input's text, like a state setter
+  onType: (update: (text: string) => string) => void;
+  disabled?: boolean;
+};
+
+// Optional 2-beolsik keyboard for computers without a Korean IME: on-screen keys, and while it
+// is on the physical QWERTY keys typed into the input are turned into jamo too
+export function HangulKeyboard({ inputRef, onType, disabled }: HangulKeyboardProps) {
+  const [enabled, setEnabled] = useState(() => keyboardRepository.isEnabled());
+  const [shift, setShift] = useState(false);
+
+  // The jamo replaces the selection and composes with the text before the caret, which stays after it
+  const typeAtCaret = useCallback((jamo: string) => {
+    const input = inputRef.current;
+    if (!input) {
+      onType(text => typeJamo(text, jamo));
+      return;
+    }
+    const start = input.selectionStart ?? input.value.length;
+    const end = input.selectionEnd ?? start;
+    let caret = start;
+    onType(text => {
+      const before = typeJamo(text.slice(0, start), jamo);
+      caret = before.length;
+      return before + text.slice(end);
+    });
+    requestAnimationFrame(() => input.setSelectionRange(caret, caret));
+  }, [inputRef, onType]);
+
+  useEffect(() => {
+    if (!enabled || disabled) return;
+    function onKeyDown(e: KeyboardEvent) {
+      const input = inputRef.current;
+      if (!input || e.target !== input) return;
+      // Leave a real IME and shortcuts alone
+      if (e.isComposing || e.ctrlKey || e.metaKey || e.altKey) return;
+      if (e.key === 'Backspace') {
+        // Composition only works at the end; a selection or a caret further in deletes normally
+        const atEnd = input.selectionStart === input.value.length && input.selectionEnd === input.value.length;
+        if (!atEnd) return;
+        e.preventDefault();
+        onType(deleteJamo);
+        return;
+      }
+      const jamo = jamoForKey(e.key);
+      if (!jamo) return;
+      e.preventDefault();
+      typeAtCaret(jamo);
+    }
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [enabled, disabled, inputRef, onType, typeAtCaret]);
+
+  function toggle() {
+    const next = !enabled;
+    setEnabled(next);
+    keyboardRepository.setEnabled(next);
+    inputRef.current?.focus();
+  }
+
+  function press(update: (text: string) => string) {
+    onType(update);
+    setShift(false);
+  }
+
+  function pressJamo(jamo: string) {
+    typeAtCaret(jamo);
+    setShift(false);
+  }
+
+  // mouseDown would move the focus to the key and end typing in the input
+  const keepFocus = (e: React.MouseEvent) => e.preventDefault();
+  const keyStyle: React.CSSProperties = { minWidth: '36px', padding: '8px 6px', fontSize: '16px' };
+
+  return (
+    <div style={{ display: 'grid', gap: 6 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+        <button className="btn small" type="button" onClick={toggle} onMouseDown={keepFocus}>
+          ⌨️ Bàn phím Hangul: {enabled ? 'Bật' : 'Tắt'}
+        </button>
+        {enabled && <span className="label" style={{ fontSize: '12px' }}>Gõ theo kiểu 2-beolsik (r = ㄱ, k = ㅏ...), Shift cho ㄲ ㄸ ㅃ ㅆ ㅉ ㅒ ㅖ</span>}
+      </div>
+      {enabled && (
+        <div style={{ display: 'grid', gap: 4, justifyContent: 'center' }}>
+          {KEYBOARD_ROWS.map((row, rowIndex) => (
+            <div key={row} style={{ display: 'flex', gap: 4, justifyContent: 'center' }}>
+              {rowIndex === KEYBOARD_ROWS.length - 1 && (
+                <button
+                  className={`btn${shift ? ' primary' : ''}`}
+                  type="button"
+                  style={keyStyle}
+                  onMouseDown={keepFocus}
+                  onClick={() => setShift(prev => !prev)}
+                  disabled={disabled}
+                  title="Shift"
+                >
+                  ⇧
+                </button>
+              )}
+              {Array.from(row).map(key => {
+                const jamo = jamoForKey(shift ? key.toUpperCase() : key) ?? key;
+                return (
+                  <button
+                    key={key}
+                    className="btn"
+                    type="button"
+                    style={keyStyle}
+                    onMouseDown={keepFocus}
+                    onClick={() => pressJamo(jamo)}
+                    disabled={disabled}
+                  >
+                    {jamo}
+                  </button>
+                );
+              })}
+              {rowIndex === KEYBOARD_ROWS.length - 1 && (
+                <button className="btn" type="button" style={keyStyle} onMouseDown={keepFocus} onClick={() => press(deleteJamo)} disabled={disabled} title="Xoá">
+                  ⌫
+                </button>
+              )}
+            </div>
+          ))}
+          <div style={{ display: 'flex', justifyContent: 'center' }}>
+            <button
+              className="btn"
+              type="button"
+              style={{ ...keyStyle, minWidth: '200px' }}
+              onMouseDown={keepFocus}
+              onClick={() => pressJamo(' ')}
+              disabled={disabled}
+            >
+              Dấu cách
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import type { Hint } from '../utils/hints';
+
+type HintPanelProps = {
+  hints: Hint[];
+  used: number;
+  onReveal: () => void;
+  disabled?: boolean;
+};
+
+// "Gợi ý" button plus the hints revealed so far, one more per click
+export function HintPanel({ hints, used, onReveal, disabled }: HintPanelProps) {
+  if (hints.length === 0) return null;
+
+  return (
+    <div style={{ display: 'grid', gap: 6 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+        <button className="btn small" type="button" onClick={onReveal} disabled={disabled || used >= hints.length}>
+          💡 Gợi ý ({used}/{hints.length})
+        </button>
+        {used > 0 && <span className="label" style={{ fontSize: '12px' }}>Mỗi gợi ý làm mục này được ôn lại sớm hơn</span>}
+      </div>
+      {hints.slice(0, used).map((hint, i) => (
+        <div key={i} style={{ padding: '6px 10px', borderRadius: '6px', background: 'rgba(245, 158, 11, 0.1)', border: '1px solid rgba(245, 158, 11, 0.4)' }}>
+          <div style={{ fontSize: '12px', color: '#f59e0b', fontWeight: 600 }}>{hint.label}</div>
+          <div style={{ fontSize: '16px', whiteSpace: 'pre-wrap', wordBreak: 'break-word', letterSpacing: '1px' }}>{hint.text}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import type { ImportChoice, ImportRow } from '../utils/importPreview';
+
+type ImportPreviewModalProps<T extends { id: string }> = {
+  rows: ImportRow<T>[];
+  fieldLabels: Record<string, string>;
+  titleOf: (item: T) => string;
+  onCancel: () => void;
+  onConfirm: (choices: Record<string, ImportChoice>) => void;
+};
+
+const CHOICES: Array<{ value: ImportChoice; label: string }> = [
+  { value: 'keep', label: 'Giữ bản của tôi' },
+  { value: 'replace', label: 'Thay bằng bản import' },
+  { value: 'keep-both', label: 'Giữ cả hai' }
+];
+
+export function ImportPreviewModal<T extends { id: string }>({ rows, fieldLabels, titleOf, onCancel, onConfirm }: ImportPreviewModalProps<T>) {
+  const newRows = rows.filter(r => r.status === 'new');
+  const changedRows = rows.filter(r => r.status === 'changed');
+  const unchangedCount = rows.length - newRows.length - changedRows.length;
+  const [choices, setChoices] = useState<Record<string, ImportChoice>>(() =>
+    Object.fromEntries(changedRows.map(r => [r.imported.id, 'replace' as ImportChoice]))
+  );
+
+  function setAll(choice: ImportChoice) {
+    setChoices(Object.fromEntries(changedRows.map(r => [r.imported.id, choice])));
+  }
+
+  return (
+    <div className="modal-backdrop">
+      <div
+        className="modal"
+        style={{ maxHeight: '85vh', display: 'flex', flexDirection: 'column' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="modal-title">Xem trước import</h3>
+        <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', fontSize: 14, marginBottom: 12 }}>
+          <span style={{ color: '#22c55e', fontWeight: 600 }}>Mới: {newRows.length}</span>
+          <span style={{ color: '#f59e0b', fontWeight: 600 }}>Thay đổi: {changedRows.length}</span>
+          <span style={{ color: '#aab8ff' }}>Không đổi: {unchangedCount}</span>
+        </div>
+
+        <div style={{ overflowY: 'auto', flex: 1, display: 'grid', gap: 12, paddingRight: 4 }}>
+          {changedRows.length > 0 && (
+            <div style={{ display: 'grid', gap: 8 }}>
+              <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+                <span className="label" style={{ fontWeight: 600 }}>Mục thay đổi</span>
+                <div className="spacer" />
+                {CHOICES.map(c => (
+                  <button key={c.value} type="button" className="btn small" onClick={() => setAll(c.value)}>
+                    Tất cả: {c.label}
+                  </button>
+                ))}
+              </div>
+              {changedRows.map(row => (
+                <div key={row.imported.id} style={{ border: '1px solid var(--border)', borderRadius: 8, padding: 8 }}>
+                  <div style={{ fontWeight: 600, marginBottom: 6 }}>{titleOf(row.current ?? row.imported)}</div>
+                  <div style={{ display: 'grid', gap: 4, fontSize: 13, marginBottom: 8 }}>
+                    {row.changes.map(change => (
+                      <div key={change.field} style={{ display: 'grid', gridTemplateColumns: '120px 1fr 1fr', gap: 8 }}>
+                        <span className="label">{fieldLabels[change.field] ?? change.field}</span>
+                        <span style={{ color: '#ef4444', textDecoration: 'line-through', whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>{change.current || '(trống)'}</span>
+                        <span style={{ color: '#22c55e', whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>{change.imported || '(trống)'}</span>
+                      </div>
+                    ))}
+                  </div>
+                  <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap' }}>
+                    {CHOICES.map(c => (
+                      <button
+                        key={c.value}
+                        type="button"
+                        className={`btn small ${choices[row.imported.id] === c.value ? 'primary' : ''}`}
+                        onClick={() => setChoices(prev => ({ ...prev, [row.imported.id]: c.value }))}
+                      >
+                        {c.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {newRows.length > 0 && (
+            <div style={{ display: 'grid', gap: 4 }}>
+              <span className="label" style={{ fontWeight: 600 }}>Mục mới</span>
+              {newRows.map(row => (
+                <div key={row.imported.id} style={{ fontSize: 14 }}>+ {titleOf(row.imported)}</div>
+              ))}
+            </div>
+          )}
+
+          {newRows.length === 0 && changedRows.length === 0 && (
+            <div className="empty">File import không có gì mới so với dữ liệu hiện tại.</div>
+          )}
+        </div>
+
+        <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end', marginTop: 12 }}>
+          <button type="button" className="btn" onClick={onCancel}>Hủy</button>
+          <button
+            type="button"
+            className="btn primary"
+            onClick={() => onConfirm(choices)}
+            disabled={newRows.length === 0 && changedRows.length === 0}
+          >
+            Áp dụng
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
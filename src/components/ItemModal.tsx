@@ -1,7 +1,9 @@
 import type { StudyItem } from '../types';
 import { normalizeNewlines } from '../utils/text';
-import { speakKorean } from '../utils/speech';
+import { speak } from '../utils/speech';
 import { getStudyLanguage, getTargetLanguageLabel } from '../utils/language';
+import { Furigana } from './Furigana';
+import { Romanization } from './Romanization';
 
 type ItemModalProps = {
   item: StudyItem | null;
@@ -40,18 +42,22 @@ export function ItemModal({ item, onClose }: ItemModalProps) {
             <span className="label">{targetLanguageLabel}:</span>
             <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginTop: 4 }}>
               <span className="value" style={{ whiteSpace: 'pre-wrap', userSelect: 'text', WebkitUserSelect: 'text', msUserSelect: 'text', MozUserSelect: 'text', display: 'inline', overflow: 'visible', flex: 1 }}>
-                {normalizeNewlines(item.korean)}
+                <Furigana text={normalizeNewlines(item.korean)} reading={item.reading} />
               </span>
               <button
                 className="btn small"
                 type="button"
-                onClick={() => speakKorean(item.korean)}
-                title="Phát âm tiếng Hàn"
+                onClick={() => speak(item.korean)}
+                title="Phát âm"
                 style={{ flexShrink: 0, padding: '4px 8px' }}
               >
                 🔊
               </button>
             </div>
+            <Romanization item={item} style={{ marginTop: 2 }} />
+            {item.romanization && (
+              <div className="label" style={{ fontSize: '12px' }}>Phiên âm trong dữ liệu: {item.romanization}</div>
+            )}
           </div>
           <div style={{ userSelect: 'text', WebkitUserSelect: 'text', msUserSelect: 'text', MozUserSelect: 'text', overflow: 'visible' }}>
             <span className="label">Tiếng Việt:</span> <span className="value" style={{ whiteSpace: 'pre-wrap', userSelect: 'text', WebkitUserSelect: 'text', msUserSelect: 'text', MozUserSelect: 'text', display: 'inline', overflow: 'visible' }}>{normalizeNewlines(item.vietnamese)}</span>
@@ -76,7 +82,7 @@ export function ItemModal({ item, onClose }: ItemModalProps) {
                     <button
                       className="btn small"
                       type="button"
-                      onClick={() => speakKorean(item.example1_ko)}
+                      onClick={() => speak(item.example1_ko)}
                       title="Phát âm ví dụ 1"
                       style={{ flexShrink: 0, padding: '4px 8px' }}
                     >
@@ -103,7 +109,7 @@ export function ItemModal({ item, onClose }: ItemModalProps) {
                     <button
                       className="btn small"
                       type="button"
-                      onClick={() => speakKorean(item.example2_ko)}
+                      onClick={() => speak(item.example2_ko)}
                       title="Phát âm ví dụ 2"
                       style={{ flexShrink: 0, padding: '4px 8px' }}
                     >
@@ -0,0 +1,56 @@
+import type { JamoDiffOp } from '../utils/grading';
+import type { JamoRole, JamoUnit } from '../utils/hangul';
+
+type JamoDiffProps = {
+  diff: JamoDiffOp[];
+};
+
+const ROLE_LABELS: Record<JamoRole, string> = {
+  initial: 'phụ âm đầu',
+  medial: 'nguyên âm',
+  final: 'patchim',
+  space: 'khoảng trắng',
+  other: 'ký tự'
+};
+
+function show(unit: JamoUnit): string {
+  return unit.role === 'space' ? '␣' : unit.jamo;
+}
+
+function describe(d: Exclude<JamoDiffOp, { op: 'equal' }>): string {
+  if (d.op === 'replace') {
+    return `${d.expected.syllable.trim() || '␣'}: ${ROLE_LABELS[d.expected.role]} ${show(d.expected)}, bạn gõ ${show(d.actual)}`;
+  }
+  if (d.op === 'missing') {
+    return `${d.expected.syllable.trim() || '␣'}: thiếu ${ROLE_LABELS[d.expected.role]} ${show(d.expected)}`;
+  }
+  return `${d.actual.syllable.trim() || '␣'}: thừa ${ROLE_LABELS[d.actual.role]} ${show(d.actual)}`;
+}
+
+// Jamo-level comparison of a typed answer: green is what was expected, red struck through is what was typed
+export function JamoDiff({ diff }: JamoDiffProps) {
+  const mistakes = diff.filter((d): d is Exclude<JamoDiffOp, { op: 'equal' }> => d.op !== 'equal');
+
+  return (
+    <div style={{ display: 'grid', gap: 6 }}>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 2, fontSize: 18, lineHeight: 1.4 }}>
+        {diff.map((d, i) => {
+          if (d.op === 'equal') {
+            return <span key={i} style={{ color: '#aab8ff' }}>{show(d.expected)}</span>;
+          }
+          return (
+            <span key={i} style={{ fontWeight: 700 }}>
+              {d.op !== 'missing' && <span style={{ color: '#ef4444', textDecoration: 'line-through' }}>{show(d.actual)}</span>}
+              {d.op !== 'extra' && <span style={{ color: '#22c55e' }}>{show(d.expected)}</span>}
+            </span>
+          );
+        })}
+      </div>
+      {mistakes.length > 0 && (
+        <ul style={{ margin: 0, paddingLeft: 20, fontSize: 14 }}>
+          {mistakes.map((d, i) => <li key={i}>{describe(d)}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+}
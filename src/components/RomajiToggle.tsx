@@ -0,0 +1,44 @@
+import type { RomajiSettings } from '../utils/kana';
+
+type RomajiToggleProps = {
+  settings: RomajiSettings;
+  onChange: (settings: RomajiSettings) => void;
+  disabled?: boolean;
+};
+
+// Switches romaji -> kana conversion of the answer field on and off, and hiragana/katakana output
+export function RomajiToggle({ settings, onChange, disabled }: RomajiToggleProps) {
+  // mouseDown would move the focus to the button and away from the answer field
+  const keepFocus = (e: React.MouseEvent) => e.preventDefault();
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+      <button
+        className="btn small"
+        type="button"
+        onMouseDown={keepFocus}
+        onClick={() => onChange({ ...settings, enabled: !settings.enabled })}
+        disabled={disabled}
+      >
+        あ Romaji → Kana: {settings.enabled ? 'Bật' : 'Tắt'}
+      </button>
+      {settings.enabled && (
+        <>
+          <button
+            className="btn small"
+            type="button"
+            onMouseDown={keepFocus}
+            onClick={() => onChange({ ...settings, katakana: !settings.katakana })}
+            disabled={disabled}
+            title="Đổi giữa hiragana và katakana"
+          >
+            {settings.katakana ? 'ア Katakana' : 'あ Hiragana'}
+          </button>
+          <span className="label" style={{ fontSize: '12px' }}>
+            Gõ romaji (nn = ん, kitte = きって, - = ー)
+          </span>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import type { StudyItem } from '../types';
+import { getStudyLanguage } from '../utils/language';
+import { romanizeItem } from '../utils/romanize';
+
+type RomanizationProps = {
+  item: StudyItem;
+  style?: React.CSSProperties;
+};
+
+// Revised Romanization shown under a Korean word; nothing for Japanese
+export function Romanization({ item, style }: RomanizationProps) {
+  if (getStudyLanguage() !== 'ko') return null;
+  const romanized = romanizeItem(item);
+  if (!romanized.trim() || romanized === item.korean.trim()) return null;
+
+  return (
+    <div className="label" style={{ fontSize: '13px', fontStyle: 'italic', ...style }}>
+      {romanized}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import type { WordResult } from '../utils/sentence';
+
+type SentenceDiffProps = {
+  result: WordResult[];
+};
+
+const chip: React.CSSProperties = {
+  padding: '2px 6px',
+  borderRadius: '4px'
+};
+
+// Typed sentence aligned with the answer: wrong words show the expected one under them,
+// extra words are struck through and missing ones leave an empty slot
+export function SentenceDiff({ result }: SentenceDiffProps) {
+  return (
+    <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'flex-start', gap: '4px', fontSize: '16px', lineHeight: '1.6' }}>
+      {result.map((item, idx) => {
+        if (item.status === 'correct') {
+          return (
+            <span key={idx} style={{ ...chip, color: '#22c55e', fontWeight: 500, backgroundColor: 'rgba(34, 197, 94, 0.1)' }}>
+              {item.word}
+            </span>
+          );
+        }
+        if (item.status === 'missing') {
+          return (
+            <span
+              key={idx}
+              title={`Thiếu: ${item.expected}`}
+              style={{ ...chip, color: '#ef4444', border: '1px dashed #ef4444', minWidth: `${Array.from(item.expected).length}em`, textAlign: 'center' }}
+            >
+              ＿
+            </span>
+          );
+        }
+        if (item.status === 'extra') {
+          return (
+            <span key={idx} title="Thừa" style={{ ...chip, color: '#ef4444', textDecoration: 'line-through', backgroundColor: 'rgba(239, 68, 68, 0.1)' }}>
+              {item.word}
+            </span>
+          );
+        }
+        return (
+          <span key={idx} style={{ ...chip, display: 'inline-grid', textAlign: 'center', backgroundColor: 'rgba(239, 68, 68, 0.1)' }}>
+            <span style={{ color: '#ef4444' }}>{item.word}</span>
+            <span style={{ color: '#22c55e', fontSize: '12px' }}>{item.expected}</span>
+          </span>
+        );
+      })}
+    </div>
+  );
+}
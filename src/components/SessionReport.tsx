@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import type { StudyItem } from '../types';
+import { normalizeNewlines } from '../utils/text';
+import { exportToCSV } from '../utils/csv';
+import { getStudyLanguage } from '../utils/language';
+import { cardsRepository, itemsRepository } from '../utils/storage';
+import { formatDuration, type SessionSummary } from '../utils/session';
+
+type SessionReportProps = {
+  summary: SessionSummary;
+  title: string;
+  // The missed items as they should be exported or copied (review mode maps queue ids back to item ids)
+  missedItems: StudyItem[];
+  // Copying to another card needs a single category; left out in the daily review
+  category?: 'vocab' | 'grammar';
+  cardId?: string;
+  fileName: string;
+  onRetryMisses: () => void;
+  children?: React.ReactNode;
+};
+
+// End-of-session report: accuracy, time, misses with what was typed and items that needed hints
+export function SessionReport({ summary, title, missedItems, category, cardId, fileName, onRetryMisses, children }: SessionReportProps) {
+  const targetCards = category ? cardsRepository.load(category).filter(c => c.id !== cardId) : [];
+  const [targetCardId, setTargetCardId] = useState(targetCards[0]?.id ?? '');
+  const [addedTo, setAddedTo] = useState<string | null>(null);
+
+  async function addToCard() {
+    const card = targetCards.find(c => c.id === targetCardId);
+    if (!category || !card || missedItems.length === 0) return;
+    // Ids are kept, so adding the same misses twice updates them instead of duplicating
+    await itemsRepository.put(category, missedItems, card.id);
+    setAddedTo(card.name);
+  }
+
+  return (
+    <div className="card" style={{ padding: '16px', display: 'grid', gap: 16 }}>
+      <div style={{ fontSize: '20px', fontWeight: 600, color: '#22c55e' }}>{title}</div>
+
+      <div className="detail" style={{ margin: 0, fontSize: '14px', display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(160px, 1fr))', gap: '8px' }}>
+        <div>
+          <span className="label">Độ chính xác:</span>{' '}
+          <strong>{Math.round(summary.accuracy * 100)}%</strong> ({summary.correct}/{summary.attempts} lượt)
+        </div>
+        <div>
+          <span className="label">Thời gian:</span> <strong>{formatDuration(summary.durationMs)}</strong>
+        </div>
+      </div>
+
+      {summary.missed.length > 0 && (
+        <div style={{ display: 'grid', gap: 6 }}>
+          <div style={{ fontWeight: 600, color: '#ef4444' }}>Mục đã sai ({summary.missed.length})</div>
+          {summary.missed.map(({ item, answers }) => (
+            <div key={item.id} style={{ padding: '8px', background: 'var(--panel)', border: '1px solid var(--border)', borderRadius: '6px', fontSize: '14px' }}>
+              <div><strong>{normalizeNewlines(item.korean)}</strong> — {normalizeNewlines(item.vietnamese || item.english)}</div>
+              {answers.length > 0 && (
+                <div style={{ color: '#ef4444', wordBreak: 'break-word' }}>Bạn đã gõ: {answers.join(' · ')}</div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {summary.hinted.length > 0 && (
+        <div style={{ display: 'grid', gap: 6 }}>
+          <div style={{ fontWeight: 600, color: '#f59e0b' }}>Cần gợi ý ({summary.hinted.length})</div>
+          {summary.hinted.map(({ item, hintsUsed }) => (
+            <div key={item.id} style={{ fontSize: '14px' }}>
+              <strong>{normalizeNewlines(item.korean)}</strong> — {hintsUsed} gợi ý
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', alignItems: 'center' }}>
+        <button className="btn primary" onClick={onRetryMisses} disabled={missedItems.length === 0}>
+          Ôn lại mục sai ({missedItems.length})
+        </button>
+        <button className="btn" onClick={() => exportToCSV(missedItems, fileName, getStudyLanguage())} disabled={missedItems.length === 0}>
+          Export CSV
+        </button>
+        {category && targetCards.length > 0 && (
+          <>
+            <select
+              className="input"
+              style={{ width: 'auto', padding: '6px 8px' }}
+              value={targetCardId}
+              onChange={(e) => { setTargetCardId(e.target.value); setAddedTo(null); }}
+            >
+              {targetCards.map(card => <option key={card.id} value={card.id}>{card.name}</option>)}
+            </select>
+            <button className="btn" onClick={addToCard} disabled={missedItems.length === 0}>Thêm vào thẻ</button>
+          </>
+        )}
+        {children}
+      </div>
+      {addedTo && <div style={{ fontSize: '14px', color: '#22c55e' }}>Đã thêm {missedItems.length} mục vào thẻ "{addedTo}".</div>}
+    </div>
+  );
+}
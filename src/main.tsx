@@ -11,7 +11,15 @@ import { SentenceCategoryPage } from './pages/SentenceCategoryPage';
 import { SentenceListPage } from './pages/SentenceListPage';
 import { SentenceCheckPage } from './pages/SentenceCheckPage';
 import { CheckPage } from './pages/CheckPage';
+import { QuizPage } from './pages/QuizPage';
+import { DictationPage } from './pages/DictationPage';
+import { ClozePage } from './pages/ClozePage';
+import { ScramblePage } from './pages/ScramblePage';
 import { WrongItemsPage } from './pages/WrongItemsPage';
+import { TrashPage } from './pages/TrashPage';
+import { MaintenancePage } from './pages/MaintenancePage';
+import { SpeechSettingsPage } from './pages/SpeechSettingsPage';
+import { initStorage, runMigrations } from './utils/storage';
 import './styles.css';
 
 const router = createBrowserRouter([
@@ -20,16 +28,30 @@ const router = createBrowserRouter([
     element: <App />,
     children: [
       { index: true, element: <Home /> },
+      { path: 'review', element: <CheckPage review /> },
+      { path: 'trash', element: <TrashPage /> },
+      { path: 'maintenance', element: <MaintenancePage /> },
+      { path: 'speech', element: <SpeechSettingsPage /> },
       { path: 'vocab', element: <CategoryPage category="vocab" /> },
       { path: 'vocab/:cardId', element: <ListPage category="vocab" /> },
       { path: 'vocab/check', element: <CheckPage /> },
       { path: 'vocab/:cardId/check', element: <CheckPage /> },
+      { path: 'vocab/quiz', element: <QuizPage category="vocab" /> },
+      { path: 'vocab/:cardId/quiz', element: <QuizPage category="vocab" /> },
+      { path: 'vocab/cloze', element: <ClozePage category="vocab" /> },
+      { path: 'vocab/:cardId/cloze', element: <ClozePage category="vocab" /> },
+      { path: 'vocab/dictation', element: <DictationPage category="vocab" /> },
+      { path: 'vocab/:cardId/dictation', element: <DictationPage category="vocab" /> },
       { path: 'vocab/wrong', element: <WrongItemsPage /> },
       { path: 'vocab/:cardId/wrong', element: <WrongItemsPage /> },
       { path: 'grammar', element: <CategoryPage category="grammar" /> },
       { path: 'grammar/:cardId', element: <ListPage category="grammar" /> },
       { path: 'grammar/check', element: <CheckPage /> },
       { path: 'grammar/:cardId/check', element: <CheckPage /> },
+      { path: 'grammar/quiz', element: <QuizPage category="grammar" /> },
+      { path: 'grammar/:cardId/quiz', element: <QuizPage category="grammar" /> },
+      { path: 'grammar/cloze', element: <ClozePage category="grammar" /> },
+      { path: 'grammar/:cardId/cloze', element: <ClozePage category="grammar" /> },
       { path: 'grammar/wrong', element: <WrongItemsPage /> },
       { path: 'grammar/:cardId/wrong', element: <WrongItemsPage /> },
       { path: 'notes', element: <NotesCategoryPage /> },
@@ -38,14 +60,24 @@ const router = createBrowserRouter([
       { path: 'sentences/:cardId', element: <SentenceListPage /> },
       { path: 'sentences/check', element: <SentenceCheckPage /> },
       { path: 'sentences/:cardId/check', element: <SentenceCheckPage /> },
+      { path: 'sentences/dictation', element: <DictationPage category="sentences" /> },
+      { path: 'sentences/:cardId/dictation', element: <DictationPage category="sentences" /> },
+      { path: 'sentences/scramble', element: <ScramblePage /> },
+      { path: 'sentences/:cardId/scramble', element: <ScramblePage /> },
       { path: 'sentences/wrong', element: <WrongItemsPage /> },
       { path: 'sentences/:cardId/wrong', element: <WrongItemsPage /> }
     ]
   }
 ]);
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <RouterProvider router={router} />
-  </React.StrictMode>
-);
+// Storage is loaded (and migrated) before the first render so pages can read it synchronously
+initStorage()
+  .then(runMigrations)
+  .catch(error => console.error('Could not open storage:', error))
+  .finally(() => {
+    ReactDOM.createRoot(document.getElementById('root')!).render(
+      <React.StrictMode>
+        <RouterProvider router={router} />
+      </React.StrictMode>
+    );
+  });
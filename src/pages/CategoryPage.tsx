@@ -1,34 +1,14 @@
 import { useEffect, useMemo, useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
+import type { Card } from '../types';
+import { cardsRepository, onStorageSync } from '../utils/storage';
 
 type CategoryPageProps = {
   category: 'vocab' | 'grammar';
 };
 
-type Card = {
-  id: string;
-  name: string;
-  createdAt: number;
-};
-
-const CARDS_KEY_PREFIX = 'korean-study:cards:';
-
-function loadCards(category: string): Card[] {
-  const raw = localStorage.getItem(CARDS_KEY_PREFIX + category);
-  if (!raw) return [];
-  try {
-    return JSON.parse(raw) as Card[];
-  } catch {
-    return [];
-  }
-}
-
-function saveCards(category: string, cards: Card[]) {
-  localStorage.setItem(CARDS_KEY_PREFIX + category, JSON.stringify(cards));
-}
-
 export function CategoryPage({ category }: CategoryPageProps) {
-  const [cards, setCards] = useState<Card[]>(() => loadCards(category));
+  const [cards, setCards] = useState<Card[]>(() => cardsRepository.load(category));
   const [showAdd, setShowAdd] = useState(false);
   const [name, setName] = useState('');
   const [renamingId, setRenamingId] = useState<string | null>(null);
@@ -36,11 +16,15 @@ export function CategoryPage({ category }: CategoryPageProps) {
   const navigate = useNavigate();
 
   useEffect(() => {
-    setCards(loadCards(category));
+    setCards(cardsRepository.load(category));
     setShowAdd(false);
     setName('');
   }, [category]);
 
+  useEffect(() => onStorageSync(change => {
+    if (cardsRepository.isAffected(change, category)) setCards(cardsRepository.load(category));
+  }), [category]);
+
   const sortedCards = useMemo(() => {
     return [...cards].sort((a, b) => b.createdAt - a.createdAt);
   }, [cards]);
@@ -58,44 +42,16 @@ export function CategoryPage({ category }: CategoryPageProps) {
     const newCard: Card = { id, name: trimmed, createdAt: Date.now() };
     const next = [newCard, ...cards];
     setCards(next);
-    saveCards(category, next);
+    cardsRepository.save(category, next);
     setName('');
     setShowAdd(false);
   }
 
   function handleDelete(cardId: string) {
-    const confirmed = window.confirm('Xóa thẻ này? Dữ liệu bên trong vẫn được giữ.');
+    const confirmed = window.confirm('Chuyển thẻ này vào thùng rác? Có thể khôi phục lại trong Thùng rác.');
     if (!confirmed) return;
-    const next = cards.filter(c => c.id !== cardId);
-    setCards(next);
-    saveCards(category, next);
-  }
-
-  function migrateStorageKeys(oldName: string, newName: string) {
-    // Items storage
-    const itemsOldKey = `korean-study:${category}:${oldName}`;
-    const itemsNewKey = `korean-study:${category}:${newName}`;
-    const itemsRaw = localStorage.getItem(itemsOldKey);
-    if (itemsRaw != null) {
-      localStorage.setItem(itemsNewKey, itemsRaw);
-      localStorage.removeItem(itemsOldKey);
-    }
-    // Flashcards progress
-    const flashOldKey = `korean-study:flashcards:${category}:${oldName}`;
-    const flashNewKey = `korean-study:flashcards:${category}:${newName}`;
-    const flashRaw = localStorage.getItem(flashOldKey);
-    if (flashRaw != null) {
-      localStorage.setItem(flashNewKey, flashRaw);
-      localStorage.removeItem(flashOldKey);
-    }
-    // Check progress
-    const checkOldKey = `korean-study:check:${category}:${oldName}`;
-    const checkNewKey = `korean-study:check:${category}:${newName}`;
-    const checkRaw = localStorage.getItem(checkOldKey);
-    if (checkRaw != null) {
-      localStorage.setItem(checkNewKey, checkRaw);
-      localStorage.removeItem(checkOldKey);
-    }
+    cardsRepository.moveToTrash(category, cardId);
+    setCards(cardsRepository.load(category));
   }
 
   function startRename(card: Card) {
@@ -126,9 +82,7 @@ export function CategoryPage({ category }: CategoryPageProps) {
     // Update card list
     const next = cards.map(c => c.id === targetId ? { ...c, name: newName } : c);
     setCards(next);
-    saveCards(category, next);
-    // Migrate related storage keys
-    migrateStorageKeys(old.name, newName);
+    cardsRepository.save(category, next);
     setRenamingId(null);
     setRenameValue('');
   }
@@ -146,6 +100,7 @@ export function CategoryPage({ category }: CategoryPageProps) {
           <div style={{ fontWeight: 600, fontSize: 18 }}>Danh sách thẻ</div>
         </div>
         <div className="spacer" />
+        <Link className="btn" to="/trash">Thùng rác</Link>
         <button className="btn primary" onClick={() => setShowAdd(true)}>+ Thêm thẻ</button>
       </div>
 
@@ -157,7 +112,7 @@ export function CategoryPage({ category }: CategoryPageProps) {
         </div>
         <div className="tbody">
           {sortedCards.map(card => (
-            <div className="row" key={card.id} style={{ cursor: 'pointer' }} onClick={() => navigate(`/${category}/${card.name}`)}>
+            <div className="row" key={card.id} style={{ cursor: 'pointer' }} onClick={() => navigate(`/${category}/${card.id}`)}>
               <div className="cell">
                 <div className="cell-input">{card.name}</div>
               </div>
@@ -165,7 +120,7 @@ export function CategoryPage({ category }: CategoryPageProps) {
                 <div className="cell-input">{new Date(card.createdAt).toLocaleString()}</div>
               </div>
               <div className="cell actions">
-                <Link className="btn small" to={`/${category}/${card.name}`} onClick={(e) => e.stopPropagation()}>Mở</Link>
+                <Link className="btn small" to={`/${category}/${card.id}`} onClick={(e) => e.stopPropagation()}>Mở</Link>
                 <button className="btn small" onClick={(e) => { e.stopPropagation(); startRename(card); }}>Sửa</button>
                 <button className="btn small danger" onClick={(e) => { e.stopPropagation(); handleDelete(card.id); }}>Xóa</button>
               </div>
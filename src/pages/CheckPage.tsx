@@ -2,24 +2,43 @@ import { useEffect, useMemo, useRef, useState } from 'react';
 import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import type { StudyItem } from '../types';
 import { normalizeNewlines } from '../utils/text';
-import { loadWrongIds, saveWrongIds } from '../utils/csv';
-import { speakKorean } from '../utils/speech';
+import { speak } from '../utils/speech';
 import { getStudyLanguage, getTargetLanguageLabel } from '../utils/language';
+import { cardsRepository, itemsRepository, progressRepository, wrongItemsRepository, furiganaRepository, onStorageSync } from '../utils/storage';
+import { reconcileDeck } from '../utils/deck';
+import { reviewItem, resetReview, getLearnedIds, withHints, QUALITY_ALMOST, QUALITY_CORRECT, QUALITY_WRONG, type ReviewQuality, type Schedule } from '../utils/srs';
+import { buildReviewQueue, recordReviewAnswer, loadReviewSettings, saveReviewSettings, type ReviewEntry, type ReviewSettings } from '../utils/review';
+import { gradeAnswer, gradeAgainstVariants, gradeMeaning, loadGradingSettings, saveGradingSettings, MAX_TOLERANCE, type GradeResult, type GradingSettings } from '../utils/grading';
+import { JamoDiff } from '../components/JamoDiff';
+import { HintPanel } from '../components/HintPanel';
+import { HangulKeyboard } from '../components/HangulKeyboard';
+import { RomajiToggle } from '../components/RomajiToggle';
+import { Furigana } from '../components/Furigana';
+import { romajiToKana, loadRomajiSettings, saveRomajiSettings, type RomajiSettings } from '../utils/kana';
+import { buildHints } from '../utils/hints';
+import { meaningVariants, stripAnnotations } from '../utils/answers';
+import { buildCloze } from '../utils/cloze';
+import { SessionReport } from '../components/SessionReport';
+import { summarizeSession, type SessionAttempt } from '../utils/session';
+import { ANSWER_DIRECTIONS, answerOf, canAsk, directionLabel, progressModeFor, type AnswerDirection, type CheckDirection } from '../utils/directions';
 
-const STORAGE_KEY_PREFIX = 'korean-study:';
+type CheckPageProps = {
+  // Daily review across all cards instead of a single card
+  review?: boolean;
+};
 
-function loadItems(category: string, cardId?: string): StudyItem[] {
-  const key = STORAGE_KEY_PREFIX + (cardId ? `${category}:${cardId}` : category);
-  const raw = localStorage.getItem(key);
-  if (!raw) return [];
-  try {
-    return JSON.parse(raw) as StudyItem[];
-  } catch {
-    return [];
-  }
+// Sentences are graded ignoring punctuation and extra spaces, like SentenceCheckPage
+function normalizeSentence(text: string): string {
+  return text.replace(/[.,!?;:]/g, ' ').trim().split(/\s+/).join(' ');
+}
+
+function loadSchedules(category: 'vocab' | 'grammar' | null, cardId: string | undefined, wrongOnly: boolean): Record<AnswerDirection, Schedule> {
+  const load = (direction: AnswerDirection) =>
+    category ? progressRepository.load(progressModeFor(direction, wrongOnly), category, cardId) : {};
+  return { 'to-target': load('to-target'), 'to-vietnamese': load('to-vietnamese'), 'to-english': load('to-english') };
 }
 
-export function CheckPage() {
+export function CheckPage({ review = false }: CheckPageProps) {
   const { cardId } = useParams();
   const navigate = useNavigate();
   const location = useLocation();
@@ -27,72 +46,114 @@ export function CheckPage() {
   // Extract category from pathname
   const category: 'vocab' | 'grammar' | null = location.pathname.includes('/vocab/') ? 'vocab' : 
                                                 location.pathname.includes('/grammar/') ? 'grammar' : null;
-  const [items] = useState<StudyItem[]>(() => {
-    if (!category) return [];
-    return loadItems(category, cardId);
-  });
+  const [reviewQueue, setReviewQueue] = useState<ReviewEntry[]>([]);
+  const [reviewSettings, setReviewSettings] = useState<ReviewSettings>(() => loadReviewSettings());
+  const [cardItems, setCardItems] = useState<StudyItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const items = useMemo(() => review ? reviewQueue.map(e => e.item) : cardItems, [review, reviewQueue, cardItems]);
+  const reviewEntries = useMemo(() => new Map(reviewQueue.map(e => [e.item.id, e])), [reviewQueue]);
   const [shuffledDeck, setShuffledDeck] = useState<StudyItem[]>([]);
   const [index, setIndex] = useState(0);
   
   // Check if we're in wrong-only mode
-  const wrongOnlyKey = `korean-study:check-wrong-only:${cardId ? `${category}:${cardId}` : category}`;
-  const isWrongOnlyMode = localStorage.getItem(wrongOnlyKey) === 'true';
+  const isWrongOnlyMode = !review && !!category && progressRepository.isWrongOnly(category, cardId);
   
-  // Use separate storage key for wrong-only mode
-  const storageKey = isWrongOnlyMode 
-    ? `korean-study:check-wrong:${cardId ? `${category}:${cardId}` : category}`
-    : `korean-study:check:${cardId ? `${category}:${cardId}` : category}`;
+  // Remembered per card; the daily review always asks for the study language
+  const [direction, setDirection] = useState<CheckDirection>(() =>
+    review || !category ? 'to-target' : progressRepository.loadDirection(category, cardId)
+  );
+  const activeDirections = useMemo(() => direction === 'mixed' ? ANSWER_DIRECTIONS : [direction], [direction]);
   
-  const [learnedIds, setLearnedIds] = useState<Set<string>>(() => {
-    // Calculate storage key inside initializer to ensure it's correct
-    const wrongOnlyFlag = localStorage.getItem(`korean-study:check-wrong-only:${cardId ? `${category}:${cardId}` : category}`) === 'true';
-    const key = wrongOnlyFlag 
-      ? `korean-study:check-wrong:${cardId ? `${category}:${cardId}` : category}`
-      : `korean-study:check:${cardId ? `${category}:${cardId}` : category}`;
-    try {
-      const raw = localStorage.getItem(key);
-      if (!raw) return new Set();
-      const parsed = JSON.parse(raw) as { ids: string[]; savedAt: number };
-      const EIGHT_HOURS_MS = 8 * 60 * 60 * 1000;
-      if (!parsed || !Array.isArray(parsed.ids) || !parsed.savedAt || Date.now() - parsed.savedAt > EIGHT_HOURS_MS) {
-        localStorage.removeItem(key);
-        return new Set();
-      }
-      return new Set(parsed.ids);
-    } catch {
-      return new Set();
-    }
-  });
+  // One schedule per direction, separate again for wrong-only mode.
+  // In review mode only to-target is used, keyed by queue id and persisted per source card.
+  const [schedules, setSchedules] = useState<Record<AnswerDirection, Schedule>>(() =>
+    loadSchedules(review ? null : category, cardId, isWrongOnlyMode)
+  );
+  const learnedBy = useMemo(() => ({
+    'to-target': getLearnedIds(schedules['to-target']),
+    'to-vietnamese': getLearnedIds(schedules['to-vietnamese']),
+    'to-english': getLearnedIds(schedules['to-english'])
+  }), [schedules]);
   const [userInput, setUserInput] = useState('');
   const [showResult, setShowResult] = useState(false);
   const [isCorrect, setIsCorrect] = useState(false);
+  const [grade, setGrade] = useState<GradeResult | null>(null);
+  const [answeredDirection, setAnsweredDirection] = useState<AnswerDirection>('to-target');
+  // Mixed mode: random pick for the current question, rolled again whenever the question changes
+  const [directionRoll, setDirectionRoll] = useState(0);
+  const [hintsUsed, setHintsUsed] = useState(0);
+  const [romaji, setRomaji] = useState<RomajiSettings>(loadRomajiSettings);
+  const [hideFurigana, setHideFurigana] = useState(() => furiganaRepository.isHidden());
+  // Answers given since the page opened (or since "retry misses"), for the report at the end
+  const [sessionStart, setSessionStart] = useState(() => Date.now());
+  const [attempts, setAttempts] = useState<(SessionAttempt & { direction: AnswerDirection })[]>([]);
+  const [gradingSettings, setGradingSettings] = useState<GradingSettings>(() => loadGradingSettings());
   const targetLanguageLabel = getTargetLanguageLabel(getStudyLanguage());
   
   // Load wrong IDs if in wrong-only mode
-  const wrongIds = useMemo(() => {
+  const [wrongIds, setWrongIds] = useState<Set<string>>(() => {
     if (!isWrongOnlyMode || !category) return new Set<string>();
-    return loadWrongIds(category, cardId);
-  }, [isWrongOnlyMode, category, cardId]);
+    return wrongItemsRepository.load(category, cardId);
+  });
+
+  // Items are read from IndexedDB after mount
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      if (review) {
+        const queue = await buildReviewQueue();
+        if (!cancelled) setReviewQueue(queue);
+      } else if (category) {
+        const loaded = await itemsRepository.load(category, cardId);
+        if (!cancelled) setCardItems(loaded);
+      }
+      if (!cancelled) setLoading(false);
+    })();
+    return () => { cancelled = true; };
+  }, [review, category, cardId]);
+
+  // Reconcile with answers and edits made in other tabs
+  useEffect(() => onStorageSync(change => {
+    if (review) {
+      const updates: Schedule = {};
+      reviewQueue.forEach(({ item, source }) => {
+        if (!progressRepository.isAffected(change, source.category, source.cardId)) return;
+        const state = progressRepository.load('check', source.category, source.cardId)[source.itemId];
+        if (state) updates[item.id] = state;
+      });
+      if (Object.keys(updates).length > 0) {
+        setSchedules(prev => ({ ...prev, 'to-target': { ...prev['to-target'], ...updates } }));
+      }
+      return;
+    }
+    if (!category) return;
+    if (progressRepository.isAffected(change, category, cardId)) {
+      setSchedules(loadSchedules(category, cardId, isWrongOnlyMode));
+      if (isWrongOnlyMode) setWrongIds(wrongItemsRepository.load(category, cardId));
+    }
+    if (itemsRepository.isAffected(change, category, cardId)) {
+      itemsRepository.load(category, cardId).then(setCardItems);
+    }
+  }), [review, reviewQueue, category, cardId, isWrongOnlyMode]);
 
   // Initialize shuffled deck when items change
   useEffect(() => {
-    let deckAll = items.filter(i => i.korean || i.vietnamese || i.english);
+    let deckAll = items.filter(i => activeDirections.some(d => canAsk(i, d)));
     
     // If in wrong-only mode, filter to only wrong items
     if (isWrongOnlyMode) {
       deckAll = deckAll.filter(i => wrongIds.has(i.id));
     }
     
-    if (deckAll.length > 0) {
-      // Shuffle the deck
-      const shuffled = [...deckAll].sort(() => Math.random() - 0.5);
-      setShuffledDeck(shuffled);
-      setIndex(0);
-    } else {
-      setShuffledDeck([]);
-      setIndex(0);
-    }
-  }, [items, isWrongOnlyMode, wrongIds]);
+    // Shuffled once; later reloads keep the order so the current question does not jump
+    setShuffledDeck(prev => reconcileDeck(prev, deckAll));
+  }, [items, isWrongOnlyMode, wrongIds, activeDirections]);
+
+  // An item is learned once it is learned in every direction it can be asked in
+  const learnedIds = useMemo(() => new Set(shuffledDeck.filter(item => {
+    const asked = activeDirections.filter(d => canAsk(item, d));
+    return asked.length > 0 && asked.every(d => learnedBy[d].has(item.id));
+  }).map(item => item.id)), [shuffledDeck, activeDirections, learnedBy]);
 
   const deck = useMemo(() => shuffledDeck.filter(i => !learnedIds.has(i.id)), [shuffledDeck, learnedIds]);
   const totalAll = shuffledDeck.length;
@@ -100,6 +161,38 @@ export function CheckPage() {
   const notLearned = Math.max(0, totalAll - learned);
   const current = deck[index] ?? deck[deck.length - 1];
 
+  // Mixed mode prefers a direction the item is not learned in yet
+  const questionDirection = useMemo<AnswerDirection>(() => {
+    if (direction !== 'mixed') return direction;
+    if (!current) return 'to-target';
+    const askable = ANSWER_DIRECTIONS.filter(d => canAsk(current, d));
+    const pending = askable.filter(d => !learnedBy[d].has(current.id));
+    const pool = pending.length > 0 ? pending : askable;
+    return pool[Math.floor(directionRoll * pool.length)] ?? 'to-target';
+  }, [current, direction, learnedBy, directionRoll]);
+  // Frozen once answered, so a schedule synced from another tab cannot flip the shown result
+  const shownDirection = showResult ? answeredDirection : questionDirection;
+  // Romaji typed for a Japanese answer is turned into kana as you go
+  const convertsRomaji = romaji.enabled && getStudyLanguage() === 'ja' && questionDirection === 'to-target';
+
+  // Syllable count, first jamo, first syllable, then example 1 with the answer blanked
+  const hints = useMemo(() => {
+    if (!current) return [];
+    const entry = reviewEntries.get(current.id);
+    if (questionDirection !== 'to-target') {
+      const meaning = answerOf(current, questionDirection);
+      // The example's translation would give the meaning away, so only the example itself is shown
+      return buildHints(meaningVariants(meaning)[0] ?? meaning, { text: current.example1_ko ?? '' });
+    }
+    const grammar = (entry?.source.category ?? category) === 'grammar';
+    const cloze = entry?.isSentence ? null
+      : buildCloze(current, current.example1_ko ?? '', current.example1_vi ?? '', current.example1_en ?? '', grammar);
+    return buildHints(stripAnnotations(current.korean), cloze && {
+      text: `${cloze.before}＿＿${cloze.after}`,
+      translation: cloze.hintVi || cloze.hintEn
+    });
+  }, [current, questionDirection, reviewEntries, category]);
+
   // Keep index within bounds when deck changes
   useEffect(() => {
     if (deck.length === 0) {
@@ -116,7 +209,10 @@ export function CheckPage() {
     setUserInput('');
     setShowResult(false);
     setIsCorrect(false);
-  }, [current]);
+    setGrade(null);
+    setHintsUsed(0);
+    setDirectionRoll(Math.random());
+  }, [current, direction]);
 
   function goNext() {
     const len = deck.length;
@@ -134,19 +230,43 @@ export function CheckPage() {
   function checkAnswer() {
     if (!current) return;
     
-    const userAnswer = userInput.trim().toLowerCase();
-    const correctAnswer = current.korean.toLowerCase();
-    
-    const correct = userAnswer === correctAnswer;
-    setIsCorrect(correct);
+    const isSentence = reviewEntries.get(current.id)?.isSentence ?? false;
+    const asked = questionDirection;
+    // A trailing "n" is still waiting for the next letter while typing
+    const answer = convertsRomaji ? romajiToKana(userInput, { katakana: romaji.katakana, final: true }) : userInput;
+    if (answer !== userInput) setUserInput(answer);
+    let result: GradeResult;
+    if (asked !== 'to-target') {
+      // Any one of the comma/semicolon separated meanings is enough
+      result = gradeMeaning(answer, answerOf(current, asked), asked === 'to-vietnamese' ? 'vi' : 'en', gradingSettings.tolerance);
+    } else if (isSentence) {
+      result = gradeAnswer(normalizeSentence(answer), normalizeSentence(current.korean), gradingSettings.tolerance);
+    } else {
+      // Vocab/grammar answers may list alternatives ("은/는"), optional parts ("(으)세요") or romanization
+      result = gradeAgainstVariants(answer, current.korean, gradingSettings.tolerance, current.reading);
+    }
+    setAnsweredDirection(asked);
+    setAttempts(prev => [...prev, { item: current, answer, correct: result.correct, hintsUsed, answeredAt: Date.now(), direction: asked }]);
+    setGrade(result);
+    setIsCorrect(result.correct);
     setShowResult(true);
 
-    // Luôn phát âm từ tiếng Hàn sau khi kiểm tra (đúng hoặc sai)
-    speakKorean(current.korean);
+    // Luôn phát âm từ (theo ngôn ngữ đang học) sau khi kiểm tra (đúng hoặc sai)
+    speak(current.korean);
 
     // Don't move item to end immediately - wait for nextQuestion()
   }
 
+  function changeRomaji(settings: RomajiSettings) {
+    setRomaji(settings);
+    saveRomajiSettings(settings);
+  }
+
+  function changeHideFurigana(hidden: boolean) {
+    setHideFurigana(hidden);
+    furiganaRepository.setHidden(hidden);
+  }
+
   // Autofocus input when card changes and result is hidden
   const inputRef = useRef<HTMLInputElement>(null);
   useEffect(() => {
@@ -165,7 +285,7 @@ export function CheckPage() {
     }
     window.addEventListener('keydown', onKeyDown);
     return () => window.removeEventListener('keydown', onKeyDown);
-  }, [showResult, index, deck.length, isCorrect]);
+  }, [showResult, index, deck.length, isCorrect, grade, hintsUsed]);
 
   function handleKeyPress(e: React.KeyboardEvent) {
     if (e.key === 'Enter' && !showResult && current) {
@@ -173,19 +293,78 @@ export function CheckPage() {
     }
   }
 
+  function recordReview(itemId: string, quality: ReviewQuality, hints = 0) {
+    const entry = reviewEntries.get(itemId);
+    if (review && entry) {
+      const nextState = recordReviewAnswer(entry, quality, Date.now(), hints);
+      setSchedules(prev => ({ ...prev, 'to-target': { ...prev['to-target'], [itemId]: nextState } }));
+      return;
+    }
+    if (!category) return;
+    const mode = progressModeFor(answeredDirection, isWrongOnlyMode);
+    const schedule = progressRepository.updateItem(mode, category, itemId, state => reviewItem(state, quality, Date.now(), hints), cardId);
+    setSchedules(prev => ({ ...prev, [answeredDirection]: schedule }));
+  }
+
+  function saveWrongItem(itemId: string) {
+    const entry = reviewEntries.get(itemId);
+    if (review && entry) {
+      wrongItemsRepository.add(entry.source.category, entry.source.itemId, entry.source.cardId);
+      return;
+    }
+    if (!category) return;
+    wrongItemsRepository.add(category, itemId, cardId);
+  }
+
+  // Make this run's misses due again so they form the deck right away
+  function retryMisses() {
+    attempts.filter(a => !a.correct).forEach(({ item, direction: missedIn }) => {
+      const entry = reviewEntries.get(item.id);
+      if (review && entry) {
+        const { category: sourceCategory, cardId: sourceCardId, itemId } = entry.source;
+        const state = progressRepository.updateItem('check', sourceCategory, itemId, resetReview, sourceCardId)[itemId];
+        if (state) setSchedules(prev => ({ ...prev, 'to-target': { ...prev['to-target'], [item.id]: state } }));
+        return;
+      }
+      if (!category) return;
+      const mode = progressModeFor(missedIn, isWrongOnlyMode);
+      const schedule = progressRepository.updateItem(mode, category, item.id, resetReview, cardId);
+      setSchedules(prev => ({ ...prev, [missedIn]: schedule }));
+    });
+    setAttempts([]);
+    setSessionStart(Date.now());
+    setIndex(0);
+  }
+
+  const summary = useMemo(() => summarizeSession(attempts, sessionStart), [attempts, sessionStart]);
+  // Exported and copied under their own ids, not the review queue keys
+  const missedItems = summary.missed.map(({ item }) => {
+    const entry = reviewEntries.get(item.id);
+    return entry ? { ...item, id: entry.source.itemId } : item;
+  });
+
+  function updateReviewSettings(next: ReviewSettings) {
+    setReviewSettings(next);
+    saveReviewSettings(next);
+  }
+
+  function changeDirection(next: CheckDirection) {
+    setDirection(next);
+    if (category) progressRepository.saveDirection(category, next, cardId);
+  }
+
+  function updateGradingSettings(next: GradingSettings) {
+    setGradingSettings(next);
+    saveGradingSettings(next);
+  }
+
   function nextQuestion() {
     if (isCorrect) {
-      // Mark as learned and persist
+      // Schedule the next review further out
       const curId = current?.id;
       if (curId) {
-        setLearnedIds(prev => {
-          const next = new Set(prev);
-          next.add(curId);
-          try {
-            localStorage.setItem(storageKey, JSON.stringify({ ids: Array.from(next), savedAt: Date.now() }));
-          } catch { }
-          return next;
-        });
+        // A near-miss accepted by the typo tolerance grows the interval a little less; each hint also shortens it
+        recordReview(curId, withHints(grade?.verdict === 'accepted' ? QUALITY_ALMOST : QUALITY_CORRECT, hintsUsed), hintsUsed);
         // Don't remove from wrong items - keep history of wrong answers
       }
       // Advance to next remaining (deck will shrink on render)
@@ -193,14 +372,14 @@ export function CheckPage() {
     } else {
       // Requeue wrong item to end of the underlying shuffled deck
       const curId = current?.id;
-      if (!curId || !category) {
+      if (!curId || (!category && !review)) {
         goNext();
         return;
       }
+      // Bring the item back soon
+      recordReview(curId, withHints(QUALITY_WRONG, hintsUsed));
       // Save wrong item flag to localStorage
-      const currentWrongIds = loadWrongIds(category, cardId);
-      currentWrongIds.add(curId);
-      saveWrongIds(category, currentWrongIds, cardId);
+      saveWrongItem(curId);
       
       setShuffledDeck(prev => {
         const newDeck = [...prev];
@@ -217,6 +396,8 @@ export function CheckPage() {
         setShowResult(false);
         setUserInput('');
         setIsCorrect(false);
+        setGrade(null);
+        setHintsUsed(0);
         // keep index as 0
       } else {
         goNext();
@@ -224,7 +405,7 @@ export function CheckPage() {
     }
   }
 
-  if (!category) {
+  if (!category && !review) {
     return (
       <div className="list-page">
         <div style={{ padding: '20px', textAlign: 'center' }}>
@@ -241,16 +422,24 @@ export function CheckPage() {
         <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
           <button className="btn" onClick={() => {
             // Clear wrong-only mode flag when going back
-            if (isWrongOnlyMode) {
-              localStorage.removeItem(wrongOnlyKey);
+            if (isWrongOnlyMode && category) {
+              progressRepository.setWrongOnly(category, false, cardId);
+            }
+            if (review) {
+              navigate('/');
+              return;
             }
             navigate(cardId ? `/${category}/${cardId}` : `/${category}`);
           }}>
             ← Quay lại
           </button>
-          <span className={`badge ${category}`}>{category === 'vocab' ? 'Từ vựng' : 'Ngữ pháp'}</span>
+          {review ? (
+            <span className="badge">Ôn tập</span>
+          ) : (
+            <span className={`badge ${category}`}>{category === 'vocab' ? 'Từ vựng' : 'Ngữ pháp'}</span>
+          )}
           <div style={{ fontWeight: 600, fontSize: 18 }}>
-            {isWrongOnlyMode ? 'Kiểm tra từ đã sai' : 'Kiểm tra từ vựng'}
+            {review ? 'Ôn tập hôm nay' : isWrongOnlyMode ? 'Kiểm tra từ đã sai' : 'Kiểm tra từ vựng'}
           </div>
           {isWrongOnlyMode && (
             <span style={{ 
@@ -266,6 +455,71 @@ export function CheckPage() {
             </span>
           )}
         </div>
+        <div className="spacer" />
+        {!review && (
+          <select
+            className="input"
+            style={{ width: 'auto', padding: '6px 8px' }}
+            value={direction}
+            onChange={(e) => changeDirection(e.target.value as CheckDirection)}
+            title="Hướng kiểm tra"
+          >
+            {[...ANSWER_DIRECTIONS, 'mixed' as const].map(d => (
+              <option key={d} value={d}>{directionLabel(d, targetLanguageLabel)}</option>
+            ))}
+          </select>
+        )}
+        <label
+          style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 14 }}
+          title="Số chữ cái (jamo) gõ sai vẫn được tính là đúng"
+        >
+          Cho phép sai
+          <input
+            type="number"
+            min={0}
+            max={MAX_TOLERANCE}
+            className="input"
+            style={{ width: 64, padding: '6px 8px' }}
+            value={gradingSettings.tolerance}
+            onChange={(e) => updateGradingSettings({
+              ...gradingSettings,
+              tolerance: Math.min(MAX_TOLERANCE, Math.max(0, Number(e.target.value) || 0))
+            })}
+          />
+        </label>
+        {getStudyLanguage() === 'ja' && (
+          <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 14 }} title="Ẩn cách đọc trên câu hỏi, hiện lại khi xem đáp án">
+            <input type="checkbox" checked={hideFurigana} onChange={(e) => changeHideFurigana(e.target.checked)} />
+            Ẩn furigana
+          </label>
+        )}
+        {review && (
+          <>
+            <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 14 }}>
+              Mới/ngày
+              <input
+                type="number"
+                min={0}
+                className="input"
+                style={{ width: 80, padding: '6px 8px' }}
+                value={reviewSettings.newPerDay}
+                onChange={(e) => updateReviewSettings({ ...reviewSettings, newPerDay: Math.max(0, Number(e.target.value) || 0) })}
+              />
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 14 }}>
+              Ôn/ngày
+              <input
+                type="number"
+                min={0}
+                className="input"
+                style={{ width: 80, padding: '6px 8px' }}
+                value={reviewSettings.reviewsPerDay}
+                onChange={(e) => updateReviewSettings({ ...reviewSettings, reviewsPerDay: Math.max(0, Number(e.target.value) || 0) })}
+              />
+            </label>
+            <button className="btn" onClick={() => buildReviewQueue().then(setReviewQueue)}>Tải lại</button>
+          </>
+        )}
       </div>
 
       <div style={{ 
@@ -296,7 +550,18 @@ export function CheckPage() {
         </div>
 
         <div style={{ flex: '1 1 auto', display: 'flex', flexDirection: 'column', minHeight: 0 }}>
-          {totalAll === 0 ? (
+          {loading ? (
+            <div style={{ 
+              padding: '16px', 
+              border: '1px solid #22305c', 
+              borderRadius: '8px', 
+              marginBottom: '12px', 
+              background: 'rgba(255,255,255,0.02)',
+              fontSize: '15px'
+            }}>
+              Đang tải dữ liệu...
+            </div>
+          ) : totalAll === 0 ? (
             <div style={{ 
               padding: '16px', 
               border: '1px solid #22305c', 
@@ -305,8 +570,18 @@ export function CheckPage() {
               background: 'rgba(255,255,255,0.02)',
               fontSize: '15px'
             }}>
-              Không có từ vựng nào để kiểm tra.
+              {review ? 'Hôm nay không còn mục nào đến hạn ôn.' : 'Không có từ vựng nào để kiểm tra.'}
             </div>
+          ) : deck.length === 0 && attempts.length > 0 ? (
+            <SessionReport
+              summary={summary}
+              title={isWrongOnlyMode ? '🎉 Bạn đã hoàn thành tất cả từ đã sai!' : review ? '🎉 Bạn đã ôn xong hôm nay!' : '🎉 Bạn đã hoàn thành tất cả từ cần ôn!'}
+              missedItems={missedItems}
+              category={review ? undefined : category ?? undefined}
+              cardId={cardId}
+              fileName={review || !category ? 'missed_review.csv' : `missed_${category}_${cardsRepository.find(category, cardId)?.name ?? cardId ?? 'all'}.csv`}
+              onRetryMisses={retryMisses}
+            />
           ) : deck.length === 0 ? (
             <div style={{ 
               padding: '16px', 
@@ -316,7 +591,7 @@ export function CheckPage() {
               background: 'rgba(255,255,255,0.02)',
               fontSize: '15px'
             }}>
-              {isWrongOnlyMode ? 'Bạn đã hoàn thành tất cả từ đã sai. 🎉' : 'Bạn đã hoàn thành tất cả từ cần ôn. 🎉'}
+              {isWrongOnlyMode ? 'Bạn đã hoàn thành tất cả từ đã sai. 🎉' : review ? 'Bạn đã ôn xong hôm nay. 🎉' : 'Bạn đã hoàn thành tất cả từ cần ôn. 🎉'}
             </div>
           ) : (
             <div
@@ -335,7 +610,56 @@ export function CheckPage() {
                 transition: 'none !important'
               }}
             >
+              {/* Source card in review mode */}
+              {review && reviewEntries.get(current.id) && (() => {
+                const source = reviewEntries.get(current.id)!.source;
+                return (
+                  <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: '12px', fontSize: '13px' }}>
+                    <span className={`badge ${source.category === 'sentences' ? 'notes' : source.category}`}>
+                      {source.category === 'vocab' ? 'Từ vựng' : source.category === 'grammar' ? 'Ngữ pháp' : 'Câu'}
+                    </span>
+                    <span style={{ color: '#aab8ff' }}>{source.cardName}</span>
+                  </div>
+                );
+              })()}
+
               {/* Question section */}
+              {direction === 'mixed' && (
+                <div style={{ marginBottom: '8px' }}>
+                  <span className="badge">{directionLabel(shownDirection, targetLanguageLabel)}</span>
+                </div>
+              )}
+              {shownDirection !== 'to-target' ? (
+              <div style={{ marginBottom: '16px' }}>
+                <span className="label" style={{ 
+                  fontSize: '14px', 
+                  fontWeight: '600',
+                  display: 'block',
+                  marginBottom: '4px'
+                }}>{targetLanguageLabel}:</span>
+                <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                  <div style={{ 
+                    fontSize: '20px', 
+                    fontWeight: '600',
+                    whiteSpace: 'pre-wrap',
+                    lineHeight: '1.4',
+                    wordBreak: 'break-word',
+                    flex: 1
+                  }}>
+                    <Furigana text={normalizeNewlines(current.korean)} reading={current.reading} hidden={hideFurigana && !showResult} />
+                  </div>
+                  <button
+                    className="btn small"
+                    type="button"
+                    onClick={() => speak(current.korean)}
+                    title="Phát âm"
+                    style={{ flexShrink: 0, padding: '4px 8px' }}
+                  >
+                    🔊
+                  </button>
+                </div>
+              </div>
+              ) : (
               <div style={{ marginBottom: '16px' }}>
                 <div style={{ marginBottom: '8px' }}>
                   <span className="label" style={{ 
@@ -372,6 +696,7 @@ export function CheckPage() {
                   </div>
                 </div>
               </div>
+              )}
 
               {/* Input section */}
               <div style={{ marginBottom: '16px' }}>
@@ -381,14 +706,16 @@ export function CheckPage() {
                   fontSize: '14px', 
                   fontWeight: '600' 
                 }}>
-                  Nhập {targetLanguageLabel}:
+                  {shownDirection === 'to-vietnamese' ? 'Nhập nghĩa tiếng Việt:'
+                    : shownDirection === 'to-english' ? 'Nhập nghĩa tiếng Anh:'
+                    : `Nhập ${targetLanguageLabel}:`}
                 </label>
                 <input
                   type="text"
                   value={userInput}
-                  onChange={(e) => setUserInput(e.target.value)}
+                  onChange={(e) => setUserInput(convertsRomaji ? romajiToKana(e.target.value, { katakana: romaji.katakana }) : e.target.value)}
                   onKeyPress={handleKeyPress}
-                  placeholder={`Nhập từ ${targetLanguageLabel.toLowerCase()}...`}
+                  placeholder={shownDirection === 'to-target' ? `Nhập từ ${targetLanguageLabel.toLowerCase()}...` : 'Nhập một trong các nghĩa...'}
                   style={{
                     width: '100%',
                     padding: '12px',
@@ -403,6 +730,24 @@ export function CheckPage() {
                 />
               </div>
 
+              {shownDirection === 'to-target' && getStudyLanguage() === 'ja' && (
+                <div style={{ marginBottom: '16px' }}>
+                  <RomajiToggle settings={romaji} onChange={changeRomaji} disabled={showResult} />
+                </div>
+              )}
+
+              {shownDirection === 'to-target' && getStudyLanguage() === 'ko' && (
+                <div style={{ marginBottom: '16px' }}>
+                  <HangulKeyboard inputRef={inputRef} onType={setUserInput} disabled={showResult} />
+                </div>
+              )}
+
+              {hints.length > 0 && (
+                <div style={{ marginBottom: '16px' }}>
+                  <HintPanel hints={hints} used={hintsUsed} onReveal={() => setHintsUsed(prev => prev + 1)} disabled={showResult} />
+                </div>
+              )}
+
               {/* Result section */}
               {showResult && (
                 <div style={{ 
@@ -430,12 +775,38 @@ export function CheckPage() {
                     <span style={{ 
                       fontSize: '16px', 
                       fontWeight: '600',
-                      color: isCorrect ? '#4CAF50' : '#f44336',
+                      color: isCorrect ? '#4CAF50' : grade?.verdict === 'almost' ? '#f59e0b' : '#f44336',
                       lineHeight: '1.2'
                     }}>
-                      {isCorrect ? 'Chính xác!' : 'Sai rồi!'}
+                      {grade?.verdict === 'accepted' ? 'Gần đúng, vẫn được tính là đúng!'
+                        : grade?.verdict === 'almost' ? 'Gần đúng!'
+                        : isCorrect ? 'Chính xác!' : 'Sai rồi!'}
                     </span>
                   </div>
+
+                  {hintsUsed > 0 && (
+                    <div style={{ marginBottom: '8px', fontSize: '14px', color: '#f59e0b' }}>
+                      Đã dùng {hintsUsed} gợi ý
+                    </div>
+                  )}
+
+                  {grade && grade.verdict !== 'wrong' && grade.expected !== answerOf(current, shownDirection).trim() && (
+                    <div style={{ marginBottom: '8px', fontSize: '14px', color: '#aab8ff' }}>
+                      Khớp với dạng: <strong>{grade.expected}</strong>
+                    </div>
+                  )}
+
+                  {grade && (grade.verdict === 'accepted' || grade.verdict === 'almost') && (
+                    <div style={{ marginBottom: '8px' }}>
+                      <span className="label" style={{ 
+                        fontSize: '14px', 
+                        fontWeight: '600',
+                        display: 'block',
+                        marginBottom: '4px'
+                      }}>Chỗ sai ({grade.distance}):</span>
+                      <JamoDiff diff={grade.diff} />
+                    </div>
+                  )}
                   
                   <div style={{ marginBottom: '8px' }}>
                     <span className="label" style={{ 
@@ -458,17 +829,21 @@ export function CheckPage() {
                         wordBreak: 'break-word',
                         flex: 1
                       }}>
-                        {normalizeNewlines(current.korean)}
+                        {shownDirection === 'to-target'
+                          ? <Furigana text={normalizeNewlines(current.korean)} reading={current.reading} />
+                          : normalizeNewlines(answerOf(current, shownDirection))}
                       </div>
-                      <button
-                        className="btn small"
-                        type="button"
-                        onClick={() => speakKorean(current.korean)}
-                        title="Phát âm đáp án đúng"
-                        style={{ flexShrink: 0, padding: '4px 8px' }}
-                      >
-                        🔊
-                      </button>
+                      {shownDirection === 'to-target' && (
+                        <button
+                          className="btn small"
+                          type="button"
+                          onClick={() => speak(current.korean)}
+                          title="Phát âm đáp án đúng"
+                          style={{ flexShrink: 0, padding: '4px 8px' }}
+                        >
+                          🔊
+                        </button>
+                      )}
                     </div>
                   </div>
 
@@ -512,7 +887,7 @@ export function CheckPage() {
                             <button
                               className="btn small"
                               type="button"
-                              onClick={() => speakKorean(current.example1_ko)}
+                              onClick={() => speak(current.example1_ko)}
                               title="Phát âm ví dụ 1"
                               style={{ flexShrink: 0, padding: '4px 8px' }}
                             >
@@ -550,7 +925,7 @@ export function CheckPage() {
                             <button
                               className="btn small"
                               type="button"
-                              onClick={() => speakKorean(current.example2_ko)}
+                              onClick={() => speak(current.example2_ko)}
                               title="Phát âm ví dụ 2"
                               style={{ flexShrink: 0, padding: '4px 8px' }}
                             >
@@ -0,0 +1,177 @@
+import { useEffect, useRef, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { normalizeNewlines } from '../utils/text';
+import { speak } from '../utils/speech';
+import { itemsRepository, wrongItemsRepository } from '../utils/storage';
+import { buildClozeDeck, type ClozeQuestion } from '../utils/cloze';
+import { gradeAnswer, loadGradingSettings, type GradeResult } from '../utils/grading';
+import { JamoDiff } from '../components/JamoDiff';
+
+type ClozePageProps = {
+  category: 'vocab' | 'grammar';
+};
+
+// Fill in the blank: the item's word or pattern is removed from one of its examples
+export function ClozePage({ category }: ClozePageProps) {
+  const { cardId } = useParams();
+  const navigate = useNavigate();
+  const [questions, setQuestions] = useState<ClozeQuestion[]>([]);
+  const [skipped, setSkipped] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [index, setIndex] = useState(0);
+  const [userInput, setUserInput] = useState('');
+  const [grade, setGrade] = useState<GradeResult | null>(null);
+  const [correctCount, setCorrectCount] = useState(0);
+  const [round, setRound] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const tolerance = loadGradingSettings().tolerance;
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    itemsRepository.load(category, cardId).then(items => {
+      if (cancelled) return;
+      const deck = buildClozeDeck(items, category === 'grammar');
+      setQuestions(deck);
+      setSkipped(items.length - deck.length);
+      setIndex(0);
+      setCorrectCount(0);
+      setLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [category, cardId, round]);
+
+  const current = questions[index];
+  const finished = !loading && questions.length > 0 && index >= questions.length;
+
+  useEffect(() => {
+    setUserInput('');
+    setGrade(null);
+    inputRef.current?.focus();
+  }, [current]);
+
+  function checkAnswer() {
+    if (!current || grade) return;
+    const result = gradeAnswer(userInput, current.answer, tolerance);
+    setGrade(result);
+    if (result.correct) {
+      setCorrectCount(prev => prev + 1);
+    } else {
+      wrongItemsRepository.add(category, current.item.id, cardId);
+    }
+    speak(current.before + current.answer + current.after);
+  }
+
+  function handleKeyDown(e: React.KeyboardEvent) {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    if (grade) setIndex(prev => prev + 1);
+    else checkAnswer();
+  }
+
+  const backPath = cardId ? `/${category}/${cardId}` : `/${category}`;
+
+  return (
+    <div className="list-page">
+      <div className="toolbar">
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+          <button className="btn" onClick={() => navigate(backPath)}>← Quay lại</button>
+          <span className={`badge ${category}`}>{category === 'vocab' ? 'Từ vựng' : 'Ngữ pháp'}</span>
+          <div style={{ fontWeight: 600, fontSize: 18 }}>Điền vào chỗ trống</div>
+        </div>
+        <div className="spacer" />
+        {!loading && questions.length > 0 && (
+          <span style={{ fontSize: '14px' }}>
+            {Math.min(index + 1, questions.length)}/{questions.length} · Đúng: <strong>{correctCount}</strong>
+          </span>
+        )}
+      </div>
+
+      <div style={{ maxWidth: 'min(720px, calc(100vw - 32px))', margin: '0 auto', padding: '16px' }}>
+        {!loading && skipped > 0 && (
+          <div className="label" style={{ fontSize: '13px', marginBottom: '8px' }}>
+            {skipped} mục không có ví dụ chứa đúng từ/mẫu nên được bỏ qua.
+          </div>
+        )}
+
+        {loading ? (
+          <div className="empty">Đang tải dữ liệu...</div>
+        ) : questions.length === 0 ? (
+          <div className="empty">Không có ví dụ nào để tạo câu điền từ.</div>
+        ) : finished ? (
+          <div className="card" style={{ padding: '16px', display: 'grid', gap: 12 }}>
+            <div style={{ fontSize: 18, fontWeight: 600 }}>Hoàn thành: đúng {correctCount}/{questions.length} 🎉</div>
+            <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+              <button className="btn primary" onClick={() => setRound(prev => prev + 1)}>Làm lại</button>
+              <button className="btn" onClick={() => navigate(`${backPath}/wrong`)}>Xem mục đã sai</button>
+            </div>
+          </div>
+        ) : current && (
+          <div className="card" style={{ padding: '16px', display: 'grid', gap: 16 }}>
+            <div style={{ fontSize: '20px', lineHeight: 1.6, wordBreak: 'break-word' }}>
+              {current.before}
+              <span style={{
+                display: 'inline-block',
+                minWidth: '3em',
+                padding: '0 6px',
+                borderBottom: '2px solid #aab8ff',
+                color: grade ? (grade.correct ? '#22c55e' : '#ef4444') : 'transparent',
+                fontWeight: 600
+              }}>
+                {grade ? current.answer : '＿'}
+              </span>
+              {current.after}
+            </div>
+
+            <div style={{ display: 'grid', gap: 4, fontSize: '14px' }}>
+              {current.hintVi && <div><strong>VI:</strong> {normalizeNewlines(current.hintVi)}</div>}
+              {current.hintEn && <div><strong>EN:</strong> {normalizeNewlines(current.hintEn)}</div>}
+            </div>
+
+            <input
+              ref={inputRef}
+              type="text"
+              className="input"
+              value={userInput}
+              onChange={(e) => setUserInput(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Nhập phần bị thiếu..."
+              disabled={!!grade}
+              style={{ fontSize: '16px', padding: '12px' }}
+            />
+
+            {grade && (
+              <div style={{
+                padding: '12px',
+                borderRadius: '6px',
+                background: grade.correct ? 'rgba(76, 175, 80, 0.1)' : 'rgba(244, 67, 54, 0.1)',
+                border: `1px solid ${grade.correct ? '#4CAF50' : '#f44336'}`,
+                display: 'grid',
+                gap: 8
+              }}>
+                <div style={{ fontWeight: 600, color: grade.correct ? '#4CAF50' : grade.verdict === 'almost' ? '#f59e0b' : '#f44336' }}>
+                  {grade.verdict === 'correct' ? '✓ Chính xác!'
+                    : grade.verdict === 'accepted' ? '✓ Gần đúng, vẫn được tính là đúng!'
+                    : grade.verdict === 'almost' ? '✗ Gần đúng!' : '✗ Sai rồi!'}
+                </div>
+                {grade.verdict !== 'correct' && grade.verdict !== 'wrong' && <JamoDiff diff={grade.diff} />}
+                <div>
+                  <span className="label">Mục:</span>{' '}
+                  <strong>{current.item.korean}</strong> — {normalizeNewlines(current.item.vietnamese)}
+                </div>
+              </div>
+            )}
+
+            <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+              {grade ? (
+                <button className="btn primary" onClick={() => setIndex(prev => prev + 1)}>Tiếp theo</button>
+              ) : (
+                <button className="btn primary" onClick={checkAnswer}>Kiểm tra</button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { useEffect, useRef, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { normalizeNewlines } from '../utils/text';
+import { speak } from '../utils/speech';
+import { itemsRepository, wrongItemsRepository } from '../utils/storage';
+import { shuffle } from '../utils/deck';
+import { stripAnnotations } from '../utils/answers';
+import { compareSentences, type WordResult } from '../utils/sentence';
+import { SentenceDiff } from '../components/SentenceDiff';
+
+type DictationPageProps = {
+  category: 'vocab' | 'sentences';
+};
+
+// What is spoken and what is shown once answered, for a vocab item or a sentence
+type DictationItem = {
+  id: string;
+  text: string;
+  translation: string;
+};
+
+const SLOW_RATE = 0.6;
+
+async function loadDictationItems(category: 'vocab' | 'sentences', cardId?: string): Promise<DictationItem[]> {
+  if (category === 'sentences') {
+    const sentences = await itemsRepository.load('sentences', cardId);
+    return sentences
+      .filter(s => s.sentence.trim())
+      .map(s => ({ id: s.id, text: s.sentence, translation: s.vietnamese }));
+  }
+  const items = await itemsRepository.load('vocab', cardId);
+  // Romanization like "동료 (dong-ryo)" is not read out or expected
+  return items
+    .map(i => ({ id: i.id, text: stripAnnotations(i.korean), translation: [i.vietnamese, i.english].filter(Boolean).join(' / ') }))
+    .filter(i => i.text);
+}
+
+// Listen and type: nothing but the audio is shown until the answer is checked
+export function DictationPage({ category }: DictationPageProps) {
+  const { cardId } = useParams();
+  const navigate = useNavigate();
+  const [items, setItems] = useState<DictationItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [index, setIndex] = useState(0);
+  const [userInput, setUserInput] = useState('');
+  const [result, setResult] = useState<WordResult[] | null>(null);
+  const [correctCount, setCorrectCount] = useState(0);
+  const [round, setRound] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    loadDictationItems(category, cardId).then(loaded => {
+      if (cancelled) return;
+      setItems(shuffle(loaded));
+      setIndex(0);
+      setCorrectCount(0);
+      setLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [category, cardId, round]);
+
+  const current = items[index];
+  const finished = !loading && items.length > 0 && index >= items.length;
+  const allCorrect = !!result && result.length > 0 && result.every(r => r.isCorrect);
+
+  // Read each new item out once; replay buttons are there when the browser blocked it
+  useEffect(() => {
+    setUserInput('');
+    setResult(null);
+    if (!current) return;
+    speak(current.text);
+    inputRef.current?.focus();
+  }, [current]);
+
+  function checkAnswer() {
+    if (!current || result) return;
+    const comparison = compareSentences(userInput, current.text);
+    setResult(comparison);
+    if (comparison.length > 0 && comparison.every(r => r.isCorrect)) {
+      setCorrectCount(prev => prev + 1);
+    } else {
+      wrongItemsRepository.add(category, current.id, cardId);
+    }
+  }
+
+  function next() {
+    setIndex(prev => prev + 1);
+  }
+
+  function handleKeyDown(e: React.KeyboardEvent) {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    if (result) next();
+    else checkAnswer();
+  }
+
+  const backPath = cardId ? `/${category}/${cardId}` : `/${category}`;
+
+  return (
+    <div className="list-page">
+      <div className="toolbar">
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+          <button className="btn" onClick={() => navigate(backPath)}>← Quay lại</button>
+          <span className={`badge ${category === 'sentences' ? 'notes' : category}`}>{category === 'vocab' ? 'Từ vựng' : 'Câu'}</span>
+          <div style={{ fontWeight: 600, fontSize: 18 }}>Nghe viết</div>
+        </div>
+        <div className="spacer" />
+        {!loading && items.length > 0 && (
+          <span style={{ fontSize: '14px' }}>
+            {Math.min(index + 1, items.length)}/{items.length} · Đúng: <strong>{correctCount}</strong>
+          </span>
+        )}
+      </div>
+
+      <div style={{ maxWidth: 'min(720px, calc(100vw - 32px))', margin: '0 auto', padding: '16px' }}>
+        {loading ? (
+          <div className="empty">Đang tải dữ liệu...</div>
+        ) : items.length === 0 ? (
+          <div className="empty">Chưa có dữ liệu để nghe viết.</div>
+        ) : finished ? (
+          <div className="card" style={{ padding: '16px', display: 'grid', gap: 12 }}>
+            <div style={{ fontSize: 18, fontWeight: 600 }}>Hoàn thành: đúng {correctCount}/{items.length} 🎉</div>
+            <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+              <button className="btn primary" onClick={() => setRound(prev => prev + 1)}>Làm lại</button>
+              <button className="btn" onClick={() => navigate(`${backPath}/wrong`)}>Xem mục đã sai</button>
+            </div>
+          </div>
+        ) : current && (
+          <div className="card" style={{ padding: '16px', display: 'grid', gap: 16 }}>
+            <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+              <button className="btn" type="button" onClick={() => speak(current.text)}>🔊 Nghe lại</button>
+              <button className="btn" type="button" onClick={() => speak(current.text, SLOW_RATE)}>🐢 Nghe chậm</button>
+            </div>
+
+            <input
+              ref={inputRef}
+              type="text"
+              className="input"
+              value={userInput}
+              onChange={(e) => setUserInput(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Gõ lại những gì bạn nghe được..."
+              disabled={!!result}
+              style={{ fontSize: '16px', padding: '12px' }}
+            />
+
+            {result && (
+              <div style={{
+                padding: '12px',
+                borderRadius: '6px',
+                background: allCorrect ? 'rgba(76, 175, 80, 0.1)' : 'rgba(244, 67, 54, 0.1)',
+                border: `1px solid ${allCorrect ? '#4CAF50' : '#f44336'}`,
+                display: 'grid',
+                gap: 8
+              }}>
+                <div style={{ fontWeight: 600, color: allCorrect ? '#4CAF50' : '#f44336' }}>
+                  {allCorrect ? '✓ Chính xác!' : '✗ Chưa đúng'}
+                </div>
+                <SentenceDiff result={result} />
+                <div>
+                  <span className="label">Đáp án:</span>{' '}
+                  <strong style={{ wordBreak: 'break-word' }}>{normalizeNewlines(current.text)}</strong>
+                </div>
+                {current.translation && (
+                  <div style={{ fontSize: '14px', whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                    {normalizeNewlines(current.translation)}
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+              {result ? (
+                <button className="btn primary" onClick={next}>Tiếp theo</button>
+              ) : (
+                <button className="btn primary" onClick={checkAnswer}>Kiểm tra</button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,56 @@
 import { Link } from 'react-router-dom';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { getStudyLanguage, setStudyLanguage, type StudyLanguage } from '../utils/language';
+import { buildReviewQueue } from '../utils/review';
+import { downloadBackup, restoreBackupFile } from '../utils/backup';
+import type { RestoreMode } from '../utils/storage';
 
 export function Home() {
   const [language, setLanguage] = useState<StudyLanguage>(() => getStudyLanguage());
+  const [reviewCount, setReviewCount] = useState(0);
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+
+  // Rebuilt when the language changes so the count matches that library's queue
+  useEffect(() => {
+    let cancelled = false;
+    buildReviewQueue().then(queue => {
+      if (!cancelled) setReviewCount(queue.length);
+    });
+    return () => { cancelled = true; };
+  }, [language]);
 
   function changeLanguage(next: StudyLanguage) {
     setStudyLanguage(next);
     setLanguage(next);
   }
 
+  function handleBackup() {
+    downloadBackup().catch(error => {
+      console.error(error);
+      window.alert('Không thể tạo bản sao lưu.');
+    });
+  }
+
+  function handleRestoreChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (restoreMode === 'replace') {
+      const confirmed = window.confirm('Thay thế toàn bộ dữ liệu hiện tại (mọi ngôn ngữ) bằng bản sao lưu?');
+      if (!confirmed) return;
+    }
+    restoreBackupFile(file, restoreMode)
+      .then(() => {
+        window.alert('Khôi phục thành công.');
+        // Every page reads storage when it mounts, reload so nothing shows stale data
+        window.location.reload();
+      })
+      .catch(error => {
+        console.error(error);
+        window.alert(error instanceof Error ? error.message : 'Không thể khôi phục bản sao lưu.');
+      });
+  }
+
   return (
     <>
       <div className="toolbar" style={{ marginBottom: 16 }}>
@@ -30,8 +71,30 @@ export function Home() {
             Tiếng Nhật
           </button>
         </div>
+        <div className="spacer" />
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+          <Link className="btn" to="/speech">🔊 Giọng đọc</Link>
+          <button className="btn" onClick={handleBackup} type="button">Sao lưu</button>
+          <select
+            className="input"
+            style={{ width: 'auto', padding: '6px 8px' }}
+            value={restoreMode}
+            onChange={(e) => setRestoreMode(e.target.value as RestoreMode)}
+          >
+            <option value="merge">Gộp</option>
+            <option value="replace">Thay thế</option>
+          </select>
+          <label className="btn">
+            Khôi phục
+            <input type="file" accept=".json,application/json" onChange={handleRestoreChange} hidden />
+          </label>
+        </div>
       </div>
       <div className="home-grid">
+      <Link to="/review" className="card">
+        <h2>🔁 Ôn tập hôm nay</h2>
+        <p>{reviewCount > 0 ? `${reviewCount} mục đến hạn ôn từ tất cả các thẻ.` : 'Không còn mục nào đến hạn ôn hôm nay.'}</p>
+      </Link>
       <Link to="/vocab" className="card">
         <h2>📚 Từ vựng</h2>
         <p>
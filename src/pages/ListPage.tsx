@@ -2,59 +2,83 @@ import { useEffect, useMemo, useState } from 'react';
 import { ItemModal } from '../components/ItemModal';
 import { EditItemModal } from '../components/EditItemModal';
 import { FlashcardModal } from '../components/FlashcardModal';
+import { ImportPreviewModal } from '../components/ImportPreviewModal';
+import { Romanization } from '../components/Romanization';
 import type { StudyItem } from '../types';
 import { useParams, useNavigate } from 'react-router-dom';
-import { exportToCSV, parseCSV, clearFlashcardStorage, areItemsDifferent, clearCheckStorage, clearWrongItemsStorage } from '../utils/csv';
-import { speakKorean } from '../utils/speech';
+import { exportToCSV, parseCSV } from '../utils/csv';
+import { buildImportPreview, applyImportChoices, type ImportChoice, type ImportRow } from '../utils/importPreview';
+import { speak } from '../utils/speech';
 import { getStudyLanguage, getTargetLanguageLabel } from '../utils/language';
+import { cardsRepository, itemsRepository, progressRepository, wrongItemsRepository, onStorageSync } from '../utils/storage';
 
 type ListPageProps = {
   category: 'vocab' | 'grammar';
 };
 
-const STORAGE_KEY_PREFIX = 'korean-study:';
-
-function loadItems(category: string, cardId?: string): StudyItem[] {
-  const key = STORAGE_KEY_PREFIX + (cardId ? `${category}:${cardId}` : category);
-  const raw = localStorage.getItem(key);
-  if (!raw) return [];
-  try {
-    return JSON.parse(raw) as StudyItem[];
-  } catch {
-    return [];
-  }
-}
-
-function saveItems(category: string, items: StudyItem[], cardId?: string) {
-  const key = STORAGE_KEY_PREFIX + (cardId ? `${category}:${cardId}` : category);
-  localStorage.setItem(key, JSON.stringify(items));
-}
-
 export function ListPage({ category }: ListPageProps) {
   const { cardId } = useParams();
   const navigate = useNavigate();
-  const [items, setItems] = useState<StudyItem[]>(() => loadItems(category, cardId));
+  const [items, setItems] = useState<StudyItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
   const [selectedId, setSelectedId] = useState<string | null>(null);
   const [query, setQuery] = useState('');
   const [showFlash, setShowFlash] = useState(false);
   const [editing, setEditing] = useState<StudyItem | null>(null);
+  const [importRows, setImportRows] = useState<ImportRow<StudyItem>[] | null>(null);
   const language = getStudyLanguage();
   const targetLanguageLabel = getTargetLanguageLabel(language);
+  const cardName = cardsRepository.find(category, cardId)?.name ?? cardId;
+  // Keyed by every StudyItem field, so a field added later cannot reach the import preview unlabelled
+  const fieldLabels: Record<Exclude<keyof StudyItem, 'id'>, string> = {
+    korean: targetLanguageLabel,
+    reading: 'Cách đọc (kana)',
+    romanization: 'Phiên âm',
+    vietnamese: 'Tiếng Việt',
+    english: 'Tiếng Anh',
+    description: 'Mô tả',
+    example1_ko: 'Ví dụ 1 (KO)',
+    example1_vi: 'Ví dụ 1 (VI)',
+    example1_en: 'Ví dụ 1 (EN)',
+    example2_ko: 'Ví dụ 2 (KO)',
+    example2_vi: 'Ví dụ 2 (VI)',
+    example2_en: 'Ví dụ 2 (EN)'
+  };
 
   useEffect(() => {
-    saveItems(category, items, cardId);
-  }, [items, cardId]);
-
-  useEffect(() => {
-    setItems(loadItems(category, cardId));
+    let cancelled = false;
+    setLoading(true);
+    setLoadFailed(false);
     setSelectedId(null);
+    itemsRepository.load(category, cardId)
+      .then(loaded => {
+        if (cancelled) return;
+        setItems(loaded);
+        setLoading(false);
+      })
+      .catch(error => {
+        console.error('Could not load items:', error);
+        if (cancelled) return;
+        setLoadFailed(true);
+        setLoading(false);
+      });
+    return () => { cancelled = true; };
   }, [category, cardId]);
 
+  // Items are written one by one, so reloading picks up other tabs' edits without losing ours
+  useEffect(() => onStorageSync(change => {
+    if (itemsRepository.isAffected(change, category, cardId)) {
+      itemsRepository.load(category, cardId).then(setItems).catch(error => console.error('Could not reload items:', error));
+    }
+  }), [category, cardId]);
+
   const filtered = useMemo(() => {
     const q = query.trim().toLowerCase();
     if (!q) return items;
     return items.filter(i =>
       i.korean.toLowerCase().includes(q) ||
+      (i.reading ?? '').includes(q) ||
       i.vietnamese.toLowerCase().includes(q) ||
       i.english.toLowerCase().includes(q)
     );
@@ -64,45 +88,40 @@ export function ListPage({ category }: ListPageProps) {
     const file = e.target.files?.[0];
     if (!file) return;
     parseCSV(file, language).then(newItems => {
-      setItems(prev => {
-        // merge by id if exists, else append
-        const map = new Map<string, StudyItem>();
-        [...prev, ...newItems].forEach(i => map.set(i.id, i));
-        const mergedItems = Array.from(map.values());
-        
-        // Check if the merged data is different from current data
-        if (areItemsDifferent(prev, mergedItems)) {
-          const categoryKey = cardId ? `${category}:${cardId}` : category;
-          // Clear flashcard storage when data changes
-          clearFlashcardStorage(categoryKey);
-          // Clear check storage when data changes
-          clearCheckStorage(categoryKey);
-          // Clear wrong items storage when data changes
-          clearWrongItemsStorage(categoryKey);
-        }
-        
-        return mergedItems;
-      });
+      // Nothing is written until the preview is confirmed
+      setImportRows(buildImportPreview(items, newItems));
       e.target.value = '';
     });
   }
 
+  function confirmImport(choices: Record<string, ImportChoice>) {
+    if (!importRows) return;
+    const result = applyImportChoices(items, importRows, choices);
+    setItems(result.items);
+    itemsRepository.put(category, result.written, cardId);
+    // Only items whose content was replaced lose their progress
+    progressRepository.clearItems(category, result.changedIds, cardId);
+    wrongItemsRepository.remove(category, result.changedIds, cardId);
+    setImportRows(null);
+  }
+
   // editing disabled in readonly list view
 
   function removeItem(id: string) {
     setItems(prev => prev.filter(i => i.id !== id));
+    itemsRepository.remove(category, id, cardId);
   }
 
   function handleClearAll() {
     const confirmed = window.confirm('Bạn có chắc muốn xóa tất cả dữ liệu hiện tại?');
     if (!confirmed) return;
-    const categoryKey = cardId ? `${category}:${cardId}` : category;
-    clearFlashcardStorage(categoryKey);
-    clearCheckStorage(categoryKey);
-    clearWrongItemsStorage(categoryKey);
+    progressRepository.clear('flashcards', category, cardId);
+    progressRepository.clearCheck(category, cardId);
+    wrongItemsRepository.clear(category, cardId);
     setSelectedId(null);
     setEditing(null);
     setItems([]);
+    itemsRepository.save(category, [], cardId);
   }
 
   return (
@@ -119,16 +138,20 @@ export function ListPage({ category }: ListPageProps) {
           Import CSV
           <input type="file" accept=".csv" onChange={handleImportChange} hidden />
         </label>
-        <label className="btn" onClick={() => exportToCSV(items, `${category}_${cardId}.csv`, language)}>Export CSV</label>
+        <label className="btn" onClick={() => exportToCSV(items, `${category}_${cardName}.csv`, language)}>Export CSV</label>
         <label className="btn danger" onClick={handleClearAll}>Xóa tất cả</label>
         <label className="btn" onClick={() => setShowFlash(true)}>Flashcard</label>
         <label className="btn" onClick={() => navigate(cardId ? `/${category}/${cardId}/wrong` : `/${category}/wrong`)}>Từ đã sai</label>
         <label className="btn" onClick={() => {
           // Clear wrong-only mode flag when entering check from list page
-          const wrongOnlyKey = `korean-study:check-wrong-only:${cardId ? `${category}:${cardId}` : category}`;
-          localStorage.removeItem(wrongOnlyKey);
+          progressRepository.setWrongOnly(category, false, cardId);
           navigate(cardId ? `/${category}/${cardId}/check` : `/${category}/check`);
         }}>Kiểm tra</label>
+        <label className="btn" onClick={() => navigate(cardId ? `/${category}/${cardId}/quiz` : `/${category}/quiz`)}>Trắc nghiệm</label>
+        <label className="btn" onClick={() => navigate(cardId ? `/${category}/${cardId}/cloze` : `/${category}/cloze`)}>Điền từ</label>
+        {category === 'vocab' && (
+          <label className="btn" onClick={() => navigate(cardId ? `/vocab/${cardId}/dictation` : '/vocab/dictation')}>Nghe viết</label>
+        )}
       </div>
 
       <div className="table">
@@ -142,15 +165,18 @@ export function ListPage({ category }: ListPageProps) {
           {filtered.map(item => (
             <div className="row" key={item.id} onClick={() => setSelectedId(item.id)} style={{ cursor: 'pointer' }}>
               <div className="cell" style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
-                <div className="cell-input" style={{ flex: 1 }}>{item.korean}</div>
+                <div className="cell-input" style={{ flex: 1 }}>
+                  {item.korean}
+                  <Romanization item={item} />
+                </div>
                 <button
                   className="btn small"
                   type="button"
                   onClick={(e) => {
                     e.stopPropagation();
-                    speakKorean(item.korean);
+                    speak(item.korean);
                   }}
-                  title="Phát âm tiếng Hàn"
+                  title="Phát âm"
                   style={{ flexShrink: 0, padding: '4px 8px' }}
                 >
                   🔊
@@ -170,7 +196,7 @@ export function ListPage({ category }: ListPageProps) {
             </div>
           ))}
           {filtered.length === 0 && (
-            <div className="empty">Chưa có dữ liệu. Hãy thêm hoặc import CSV.</div>
+            <div className="empty">{loading ? 'Đang tải dữ liệu...' : loadFailed ? 'Không thể tải dữ liệu. Hãy tải lại trang.' : 'Chưa có dữ liệu. Hãy thêm hoặc import CSV.'}</div>
           )}
         </div>
       </div>
@@ -179,13 +205,26 @@ export function ListPage({ category }: ListPageProps) {
       <EditItemModal
         item={editing}
         onClose={() => setEditing(null)}
-        onSave={(updated) => setItems(prev => prev.map(i => i.id === updated.id ? updated : i))}
+        onSave={(updated) => {
+          setItems(prev => prev.map(i => i.id === updated.id ? updated : i));
+          itemsRepository.put(category, [updated], cardId);
+        }}
       />
+      {importRows && (
+        <ImportPreviewModal
+          rows={importRows}
+          fieldLabels={fieldLabels}
+          titleOf={(item) => item.korean || item.vietnamese}
+          onCancel={() => setImportRows(null)}
+          onConfirm={confirmImport}
+        />
+      )}
       {showFlash && (
         <FlashcardModal
           items={filtered}
           onClose={() => setShowFlash(false)}
-          storageKey={`korean-study:flashcards:${cardId ? `${category}:${cardId}` : category}`}
+          category={category}
+          cardId={cardId}
         />
       )}
     </div>
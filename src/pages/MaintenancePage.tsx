@@ -0,0 +1,60 @@
+import { useEffect, useState } from 'react';
+import { findOrphans, removeOrphans, type OrphanEntry } from '../utils/storage';
+
+// Finds stored entries that no card (active or in the trash) refers to any more
+export function MaintenancePage() {
+  const [orphans, setOrphans] = useState<OrphanEntry[]>([]);
+  const [scanning, setScanning] = useState(true);
+
+  function scan() {
+    setScanning(true);
+    findOrphans()
+      .then(setOrphans)
+      .catch(error => {
+        console.error(error);
+        window.alert('Không thể quét dữ liệu.');
+      })
+      .finally(() => setScanning(false));
+  }
+
+  useEffect(() => {
+    scan();
+  }, []);
+
+  function handleClean() {
+    const confirmed = window.confirm(`Xóa ${orphans.length} mục dữ liệu mồ côi? Không thể hoàn tác.`);
+    if (!confirmed) return;
+    removeOrphans(orphans).then(scan);
+  }
+
+  return (
+    <div className="list-page">
+      <div className="toolbar">
+        <div style={{ fontWeight: 600, fontSize: 18 }}>Dọn dẹp dữ liệu</div>
+        <div className="spacer" />
+        <button className="btn" onClick={scan} disabled={scanning}>Quét lại</button>
+        <button className="btn danger" onClick={handleClean} disabled={scanning || orphans.length === 0}>Xóa tất cả</button>
+      </div>
+
+      <div className="table">
+        <div className="thead" style={{ gridTemplateColumns: '3fr 1fr 1fr' }}>
+          <div>Khóa</div>
+          <div>Loại</div>
+          <div>Kích thước</div>
+        </div>
+        <div className="tbody">
+          {orphans.map(entry => (
+            <div className="row" key={`${entry.kind}:${entry.key}`} style={{ gridTemplateColumns: '3fr 1fr 1fr' }}>
+              <div className="cell"><div className="cell-input" style={{ wordBreak: 'break-all' }}>{entry.label}</div></div>
+              <div className="cell"><div className="cell-input">{entry.kind === 'items' ? 'Danh sách mục' : 'Giá trị'}</div></div>
+              <div className="cell"><div className="cell-input">{entry.kind === 'items' ? `${entry.size} mục` : `${entry.size} ký tự`}</div></div>
+            </div>
+          ))}
+          {orphans.length === 0 && (
+            <div className="empty">{scanning ? 'Đang quét...' : 'Không có dữ liệu mồ côi.'}</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
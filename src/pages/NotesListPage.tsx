@@ -1,38 +1,49 @@
 import { useEffect, useMemo, useState } from 'react';
 import type { NoteItem } from '../types';
-import { exportNotesToCSV, parseNotesCSV, clearFlashcardStorage, areItemsDifferent } from '../utils/csv';
+import { exportNotesToCSV, parseNotesCSV } from '../utils/csv';
+import { buildImportPreview, applyImportChoices, type ImportChoice, type ImportRow } from '../utils/importPreview';
+import { ImportPreviewModal } from '../components/ImportPreviewModal';
 import { normalizeNewlines } from '../utils/text';
+import { cardsRepository, itemsRepository, onStorageSync } from '../utils/storage';
 import { useParams } from 'react-router-dom';
 
-const STORAGE_KEY_PREFIX = 'korean-study:notes';
-
-function loadNotes(cardId?: string): NoteItem[] {
-  const key = cardId ? `${STORAGE_KEY_PREFIX}:${cardId}` : STORAGE_KEY_PREFIX;
-  const raw = localStorage.getItem(key);
-  if (!raw) return [];
-  try { return JSON.parse(raw) as NoteItem[]; } catch { return []; }
-}
-
-function saveNotes(items: NoteItem[], cardId?: string) {
-  const key = cardId ? `${STORAGE_KEY_PREFIX}:${cardId}` : STORAGE_KEY_PREFIX;
-  localStorage.setItem(key, JSON.stringify(items));
-}
-
 export function NotesListPage() {
   const { cardId } = useParams();
-  const [items, setItems] = useState<NoteItem[]>(() => loadNotes(cardId));
+  const [items, setItems] = useState<NoteItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
   const [selected, setSelected] = useState<NoteItem | null>(null);
   const [query, setQuery] = useState('');
+  const [importRows, setImportRows] = useState<ImportRow<NoteItem>[] | null>(null);
+  const cardName = cardsRepository.find('notes', cardId)?.name ?? cardId;
 
   useEffect(() => {
-    saveNotes(items, cardId);
-  }, [items, cardId]);
-
-  useEffect(() => {
-    setItems(loadNotes(cardId));
+    let cancelled = false;
+    setLoading(true);
+    setLoadFailed(false);
     setSelected(null);
+    itemsRepository.load('notes', cardId)
+      .then(loaded => {
+        if (cancelled) return;
+        setItems(loaded);
+        setLoading(false);
+      })
+      .catch(error => {
+        console.error('Could not load items:', error);
+        if (cancelled) return;
+        setLoadFailed(true);
+        setLoading(false);
+      });
+    return () => { cancelled = true; };
   }, [cardId]);
 
+  // Items are written one by one, so reloading picks up other tabs' edits without losing ours
+  useEffect(() => onStorageSync(change => {
+    if (itemsRepository.isAffected(change, 'notes', cardId)) {
+      itemsRepository.load('notes', cardId).then(setItems).catch(error => console.error('Could not reload items:', error));
+    }
+  }), [cardId]);
+
   const filtered = useMemo(() => {
     const q = query.trim().toLowerCase();
     if (!q) return items;
@@ -47,24 +58,23 @@ export function NotesListPage() {
     const file = e.target.files?.[0];
     if (!file) return;
     parseNotesCSV(file).then(newItems => {
-      setItems(prev => {
-        const map = new Map<string, NoteItem>();
-        [...prev, ...newItems].forEach(i => map.set(i.id, i));
-        const mergedItems = Array.from(map.values());
-        
-        if (areItemsDifferent(prev, mergedItems)) {
-          clearFlashcardStorage('vocab');
-          clearFlashcardStorage('grammar');
-        }
-        
-        return mergedItems;
-      });
+      setImportRows(buildImportPreview(items, newItems));
       e.target.value = '';
     });
   }
 
+  // Notes have no study progress, so nothing else needs clearing
+  function confirmImport(choices: Record<string, ImportChoice>) {
+    if (!importRows) return;
+    const result = applyImportChoices(items, importRows, choices);
+    setItems(result.items);
+    itemsRepository.put('notes', result.written, cardId);
+    setImportRows(null);
+  }
+
   function removeItem(id: string) {
     setItems(prev => prev.filter(i => i.id !== id));
+    itemsRepository.remove('notes', id, cardId);
   }
 
   function handleClearAll() {
@@ -72,6 +82,7 @@ export function NotesListPage() {
     if (!confirmed) return;
     setSelected(null);
     setItems([]);
+    itemsRepository.save('notes', [], cardId);
   }
 
   return (
@@ -83,7 +94,7 @@ export function NotesListPage() {
           Import CSV
           <input type="file" accept=".csv" onChange={handleImportChange} hidden />
         </label>
-        <label className="btn" onClick={() => exportNotesToCSV(items, `notes_${cardId || 'all'}.csv`)}>Export CSV</label>
+        <label className="btn" onClick={() => exportNotesToCSV(items, `notes_${cardName || 'all'}.csv`)}>Export CSV</label>
         <label className="btn danger" onClick={handleClearAll}>Xóa tất cả</label>
       </div>
 
@@ -105,7 +116,7 @@ export function NotesListPage() {
             </div>
           ))}
           {filtered.length === 0 && (
-            <div className="empty">Chưa có dữ liệu. Hãy import CSV.</div>
+            <div className="empty">{loading ? 'Đang tải dữ liệu...' : loadFailed ? 'Không thể tải dữ liệu. Hãy tải lại trang.' : 'Chưa có dữ liệu. Hãy import CSV.'}</div>
           )}
         </div>
       </div>
@@ -139,6 +150,16 @@ export function NotesListPage() {
           </div>
         </div>
       )}
+
+      {importRows && (
+        <ImportPreviewModal
+          rows={importRows}
+          fieldLabels={{ title: 'Tiêu đề', description: 'Mô tả', example: 'Ví dụ' }}
+          titleOf={(item) => item.title}
+          onCancel={() => setImportRows(null)}
+          onConfirm={confirmImport}
+        />
+      )}
     </div>
   );
 }
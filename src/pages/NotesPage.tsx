@@ -1,26 +1,15 @@
 import { useEffect, useMemo, useState } from 'react';
 import type { NoteItem } from '../types';
-import { exportNotesToCSV, parseNotesCSV, clearFlashcardStorage, areItemsDifferent } from '../utils/csv';
+import { exportNotesToCSV, parseNotesCSV, areItemsDifferent } from '../utils/csv';
 import { normalizeNewlines } from '../utils/text';
-
-const STORAGE_KEY = 'korean-study:notes';
-
-function loadNotes(): NoteItem[] {
-  const raw = localStorage.getItem(STORAGE_KEY);
-  if (!raw) return [];
-  try { return JSON.parse(raw) as NoteItem[]; } catch { return []; }
-}
-
-function saveNotes(items: NoteItem[]) {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
-}
+import { itemsRepository, progressRepository } from '../utils/storage';
 
 export default function NotesPage() {
-  const [items, setItems] = useState<NoteItem[]>(loadNotes);
+  const [items, setItems] = useState<NoteItem[]>([]);
   const [selected, setSelected] = useState<NoteItem | null>(null);
   const [query, setQuery] = useState('');
 
-  useEffect(() => { saveNotes(items); }, [items]);
+  useEffect(() => { itemsRepository.load('notes').then(setItems); }, []);
 
   const filtered = useMemo(() => {
     const q = query.trim().toLowerCase();
@@ -36,6 +25,7 @@ export default function NotesPage() {
     const file = e.target.files?.[0];
     if (!file) return;
     parseNotesCSV(file).then(newItems => {
+      itemsRepository.put('notes', newItems);
       setItems(prev => {
         const map = new Map<string, NoteItem>();
         [...prev, ...newItems].forEach(i => map.set(i.id, i));
@@ -45,8 +35,8 @@ export default function NotesPage() {
         if (areItemsDifferent(prev, mergedItems)) {
           // Clear flashcard storage for all categories when notes change
           // since notes might affect study context
-          clearFlashcardStorage('vocab');
-          clearFlashcardStorage('grammar');
+          progressRepository.clear('flashcards', 'vocab');
+          progressRepository.clear('flashcards', 'grammar');
         }
         
         return mergedItems;
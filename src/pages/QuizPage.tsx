@@ -0,0 +1,196 @@
+import { useEffect, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { normalizeNewlines } from '../utils/text';
+import { speak } from '../utils/speech';
+import { getStudyLanguage, getTargetLanguageLabel } from '../utils/language';
+import { itemsRepository, progressRepository, wrongItemsRepository } from '../utils/storage';
+import { directionLabel } from '../utils/directions';
+import { buildQuiz, loadDistractorPool, type QuizQuestion } from '../utils/quiz';
+
+type QuizPageProps = {
+  category: 'vocab' | 'grammar';
+};
+
+// Multiple choice instead of typing, for quick reviews on a phone
+export function QuizPage({ category }: QuizPageProps) {
+  const { cardId } = useParams();
+  const navigate = useNavigate();
+  const targetLanguageLabel = getTargetLanguageLabel(getStudyLanguage());
+  // Same direction as the card's check mode
+  const direction = progressRepository.loadDirection(category, cardId);
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [index, setIndex] = useState(0);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [correctCount, setCorrectCount] = useState(0);
+  const [round, setRound] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    (async () => {
+      const items = await itemsRepository.load(category, cardId);
+      const pool = await loadDistractorPool(category, cardId, items);
+      if (cancelled) return;
+      setQuestions(buildQuiz(items, pool, direction));
+      setIndex(0);
+      setSelected(null);
+      setCorrectCount(0);
+      setLoading(false);
+    })();
+    return () => { cancelled = true; };
+  }, [category, cardId, direction, round]);
+
+  const current = questions[index];
+  const finished = !loading && questions.length > 0 && index >= questions.length;
+
+  function choose(option: string) {
+    if (!current || selected !== null) return;
+    setSelected(option);
+    if (option === current.answer) {
+      setCorrectCount(prev => prev + 1);
+    } else {
+      // Same "Từ đã sai" list as the typed check
+      wrongItemsRepository.add(category, current.item.id, cardId);
+    }
+    speak(current.item.korean);
+  }
+
+  function next() {
+    if (selected === null) return;
+    setSelected(null);
+    setIndex(prev => prev + 1);
+  }
+
+  // 1-4 picks an option, Enter moves on
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (!current) return;
+      if (selected === null && /^[1-9]$/.test(e.key)) {
+        const option = current.options[Number(e.key) - 1];
+        if (option !== undefined) choose(option);
+      } else if (e.key === 'Enter' && selected !== null) {
+        e.preventDefault();
+        next();
+      }
+    }
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  function optionStyle(option: string): React.CSSProperties {
+    const base: React.CSSProperties = {
+      padding: '12px',
+      fontSize: '16px',
+      textAlign: 'left',
+      whiteSpace: 'pre-wrap',
+      wordBreak: 'break-word',
+      justifyContent: 'flex-start'
+    };
+    if (selected === null || !current) return base;
+    if (option === current.answer) return { ...base, background: 'rgba(76, 175, 80, 0.2)', borderColor: '#4CAF50' };
+    if (option === selected) return { ...base, background: 'rgba(244, 67, 54, 0.2)', borderColor: '#f44336' };
+    return { ...base, opacity: 0.6 };
+  }
+
+  return (
+    <div className="list-page">
+      <div className="toolbar">
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+          <button className="btn" onClick={() => navigate(cardId ? `/${category}/${cardId}` : `/${category}`)}>
+            ← Quay lại
+          </button>
+          <span className={`badge ${category}`}>{category === 'vocab' ? 'Từ vựng' : 'Ngữ pháp'}</span>
+          <div style={{ fontWeight: 600, fontSize: 18 }}>Trắc nghiệm</div>
+          <span className="badge">{directionLabel(direction, targetLanguageLabel)}</span>
+        </div>
+      </div>
+
+      <div style={{ maxWidth: 'min(720px, calc(100vw - 32px))', margin: '0 auto', padding: '16px' }}>
+        {!loading && questions.length > 0 && (
+          <div className="detail" style={{ marginBottom: '12px', fontSize: '14px', display: 'flex', justifyContent: 'space-between' }}>
+            <span><span className="label">Câu:</span> <strong>{Math.min(index + 1, questions.length)}/{questions.length}</strong></span>
+            <span><span className="label">Đúng:</span> <strong>{correctCount}</strong></span>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="empty">Đang tải dữ liệu...</div>
+        ) : questions.length === 0 ? (
+          <div className="empty">Cần ít nhất hai mục khác nhau để tạo câu hỏi trắc nghiệm.</div>
+        ) : finished ? (
+          <div className="card" style={{ padding: '16px', display: 'grid', gap: 12 }}>
+            <div style={{ fontSize: 18, fontWeight: 600 }}>
+              Hoàn thành: đúng {correctCount}/{questions.length} 🎉
+            </div>
+            <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+              <button className="btn primary" onClick={() => setRound(prev => prev + 1)}>Làm lại</button>
+              <button className="btn" onClick={() => navigate(cardId ? `/${category}/${cardId}/wrong` : `/${category}/wrong`)}>
+                Xem từ đã sai
+              </button>
+            </div>
+          </div>
+        ) : current && (
+          <div className="card" style={{ padding: '16px', display: 'grid', gap: 16 }}>
+            {current.direction === 'to-target' ? (
+              <div style={{ display: 'grid', gap: 8 }}>
+                <div>
+                  <span className="label" style={{ fontSize: '14px', fontWeight: '600', display: 'block', marginBottom: '4px' }}>Tiếng Việt:</span>
+                  <div style={{ fontSize: '16px', whiteSpace: 'pre-wrap', lineHeight: '1.4', wordBreak: 'break-word' }}>
+                    {normalizeNewlines(current.item.vietnamese)}
+                  </div>
+                </div>
+                <div>
+                  <span className="label" style={{ fontSize: '14px', fontWeight: '600', display: 'block', marginBottom: '4px' }}>Tiếng Anh:</span>
+                  <div style={{ fontSize: '16px', whiteSpace: 'pre-wrap', lineHeight: '1.4', wordBreak: 'break-word' }}>
+                    {normalizeNewlines(current.item.english)}
+                  </div>
+                </div>
+              </div>
+            ) : (
+              <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                <div style={{ fontSize: '20px', fontWeight: 600, flex: 1, wordBreak: 'break-word' }}>
+                  {normalizeNewlines(current.item.korean)}
+                </div>
+                <button
+                  className="btn small"
+                  type="button"
+                  onClick={() => speak(current.item.korean)}
+                  title="Phát âm"
+                  style={{ flexShrink: 0, padding: '4px 8px' }}
+                >
+                  🔊
+                </button>
+              </div>
+            )}
+
+            <div style={{ display: 'grid', gap: 8 }}>
+              {current.options.map((option, i) => (
+                <button
+                  key={option}
+                  type="button"
+                  className="btn"
+                  style={optionStyle(option)}
+                  onClick={() => choose(option)}
+                  disabled={selected !== null && option !== current.answer && option !== selected}
+                >
+                  {i + 1}. {normalizeNewlines(option)}
+                </button>
+              ))}
+            </div>
+
+            {selected !== null && (
+              <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                <span style={{ fontWeight: 600, color: selected === current.answer ? '#4CAF50' : '#f44336' }}>
+                  {selected === current.answer ? '✓ Chính xác!' : '✗ Sai rồi!'}
+                </span>
+                <div className="spacer" />
+                <button className="btn primary" onClick={next}>Tiếp theo</button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
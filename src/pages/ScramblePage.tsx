@@ -0,0 +1,222 @@
+import { useEffect, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import type { SentenceItem } from '../types';
+import { speak } from '../utils/speech';
+import { itemsRepository, wrongItemsRepository } from '../utils/storage';
+import { shuffle } from '../utils/deck';
+import { splitKoreanWords } from '../utils/sentence';
+
+type ScrambleQuestion = {
+  sentence: SentenceItem;
+  words: string[]; // correct order
+  chips: string[]; // shuffled
+};
+
+function scramble(words: string[]): string[] {
+  // Reshuffle a few times so the chips do not come out already in order
+  let chips = shuffle(words);
+  for (let attempt = 0; attempt < 5 && chips.join(' ') === words.join(' '); attempt++) {
+    chips = shuffle(words);
+  }
+  return chips;
+}
+
+function buildQuestions(sentences: SentenceItem[]): ScrambleQuestion[] {
+  return shuffle(sentences)
+    .map(sentence => ({ sentence, words: splitKoreanWords(sentence.sentence) }))
+    .filter(({ words }) => new Set(words).size > 1)
+    .map(({ sentence, words }) => ({ sentence, words, chips: scramble(words) }));
+}
+
+// Rebuild a sentence from its shuffled words, with the Vietnamese translation as the prompt
+export function ScramblePage() {
+  const { cardId } = useParams();
+  const navigate = useNavigate();
+  const [questions, setQuestions] = useState<ScrambleQuestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [index, setIndex] = useState(0);
+  const [picked, setPicked] = useState<number[]>([]); // chip indexes in the order they were tapped
+  const [checked, setChecked] = useState<boolean | null>(null);
+  const [correctCount, setCorrectCount] = useState(0);
+  const [round, setRound] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    itemsRepository.load('sentences', cardId).then(sentences => {
+      if (cancelled) return;
+      setQuestions(buildQuestions(sentences.filter(s => s.sentence.trim())));
+      setIndex(0);
+      setCorrectCount(0);
+      setLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [cardId, round]);
+
+  const current = questions[index];
+  const finished = !loading && questions.length > 0 && index >= questions.length;
+  const built = current ? picked.map(i => current.chips[i]) : [];
+
+  useEffect(() => {
+    setPicked([]);
+    setChecked(null);
+  }, [current]);
+
+  function pick(chipIndex: number) {
+    if (!current || checked !== null || picked.includes(chipIndex)) return;
+    const next = [...picked, chipIndex];
+    setPicked(next);
+    if (next.length < current.chips.length) return;
+    // Graded by word, so two identical words may be placed either way round
+    const correct = next.every((i, position) => current.chips[i] === current.words[position]);
+    setChecked(correct);
+    if (correct) {
+      setCorrectCount(prev => prev + 1);
+    } else {
+      wrongItemsRepository.add('sentences', current.sentence.id, cardId);
+    }
+    speak(current.sentence.sentence);
+  }
+
+  function undo() {
+    if (checked !== null) return;
+    setPicked(prev => prev.slice(0, -1));
+  }
+
+  // Backspace undoes the last chip, Enter moves on once checked
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (e.key === 'Backspace' && checked === null) {
+        e.preventDefault();
+        setPicked(prev => prev.slice(0, -1));
+      } else if (e.key === 'Enter' && checked !== null) {
+        e.preventDefault();
+        setIndex(prev => prev + 1);
+      }
+    }
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [checked]);
+
+  const backPath = cardId ? `/sentences/${cardId}` : '/sentences';
+
+  return (
+    <div className="list-page">
+      <div className="toolbar">
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+          <button className="btn" onClick={() => navigate(backPath)}>← Quay lại</button>
+          <span className="badge notes">Câu</span>
+          <div style={{ fontWeight: 600, fontSize: 18 }}>Sắp xếp câu</div>
+        </div>
+        <div className="spacer" />
+        {!loading && questions.length > 0 && (
+          <span style={{ fontSize: '14px' }}>
+            {Math.min(index + 1, questions.length)}/{questions.length} · Đúng: <strong>{correctCount}</strong>
+          </span>
+        )}
+      </div>
+
+      <div style={{ maxWidth: 'min(800px, calc(100vw - 32px))', margin: '0 auto', padding: '16px' }}>
+        {loading ? (
+          <div className="empty">Đang tải dữ liệu...</div>
+        ) : questions.length === 0 ? (
+          <div className="empty">Chưa có câu nào đủ hai từ để sắp xếp.</div>
+        ) : finished ? (
+          <div className="card" style={{ padding: '16px', display: 'grid', gap: 12 }}>
+            <div style={{ fontSize: 18, fontWeight: 600 }}>Hoàn thành: đúng {correctCount}/{questions.length} 🎉</div>
+            <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+              <button className="btn primary" onClick={() => setRound(prev => prev + 1)}>Làm lại</button>
+              <button className="btn" onClick={() => navigate(`${backPath}/wrong`)}>Xem câu đã sai</button>
+            </div>
+          </div>
+        ) : current && (
+          <div style={{ display: 'grid', gap: 16 }}>
+            <div style={{
+              padding: '20px',
+              background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+              borderRadius: '12px',
+              color: '#ffffff'
+            }}>
+              <div style={{ fontSize: '14px', opacity: 0.9, marginBottom: '8px' }}>📝 Câu cần sắp xếp (Tiếng Việt):</div>
+              <div style={{ fontSize: '20px', fontWeight: 500, lineHeight: 1.5 }}>
+                {current.sentence.vietnamese || '(Chưa có bản dịch tiếng Việt)'}
+              </div>
+            </div>
+
+            {/* Sentence being built */}
+            <div style={{
+              minHeight: '56px',
+              padding: '12px',
+              border: '1px dashed var(--border)',
+              borderRadius: '8px',
+              display: 'flex',
+              flexWrap: 'wrap',
+              gap: 8
+            }}>
+              {built.length === 0 && <span className="label">Chạm vào các từ bên dưới theo đúng thứ tự</span>}
+              {built.map((word, position) => (
+                <span
+                  key={position}
+                  className="btn"
+                  style={{
+                    cursor: 'default',
+                    fontSize: '16px',
+                    ...(checked === null ? {} : word === current.words[position]
+                      ? { background: 'rgba(34, 197, 94, 0.2)', borderColor: '#22c55e' }
+                      : { background: 'rgba(239, 68, 68, 0.2)', borderColor: '#ef4444' })
+                  }}
+                >
+                  {word}
+                </span>
+              ))}
+            </div>
+
+            {/* Remaining chips */}
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8 }}>
+              {current.chips.map((word, i) => (
+                <button
+                  key={i}
+                  type="button"
+                  className="btn"
+                  style={{ fontSize: '16px', visibility: picked.includes(i) ? 'hidden' : 'visible' }}
+                  onClick={() => pick(i)}
+                  disabled={checked !== null}
+                >
+                  {word}
+                </button>
+              ))}
+            </div>
+
+            {checked === false && (
+              <div style={{
+                padding: '12px',
+                borderRadius: '8px',
+                background: 'rgba(239, 68, 68, 0.1)',
+                border: '1px solid rgba(239, 68, 68, 0.3)'
+              }}>
+                <div style={{ fontSize: '14px', color: '#ef4444', marginBottom: '6px', fontWeight: 600 }}>✗ Thứ tự đúng:</div>
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8, fontSize: '16px' }}>
+                  {current.words.map((word, i) => <span key={i}>{i + 1}. {word}</span>)}
+                </div>
+              </div>
+            )}
+            {checked === true && (
+              <div style={{ fontWeight: 600, color: '#22c55e' }}>✓ Chính xác!</div>
+            )}
+
+            <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end', flexWrap: 'wrap' }}>
+              {checked === null ? (
+                <>
+                  <button className="btn" onClick={undo} disabled={picked.length === 0}>↶ Hoàn tác</button>
+                  <button className="btn" onClick={() => setPicked([])} disabled={picked.length === 0}>Xếp lại</button>
+                </>
+              ) : (
+                <button className="btn primary" onClick={() => setIndex(prev => prev + 1)}>Tiếp theo</button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
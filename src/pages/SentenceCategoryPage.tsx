@@ -1,30 +1,10 @@
 import { useEffect, useMemo, useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-
-type Card = {
-  id: string;
-  name: string;
-  createdAt: number;
-};
-
-const CARDS_KEY_PREFIX = 'korean-study:cards:sentences';
-
-function loadCards(): Card[] {
-  const raw = localStorage.getItem(CARDS_KEY_PREFIX);
-  if (!raw) return [];
-  try {
-    return JSON.parse(raw) as Card[];
-  } catch {
-    return [];
-  }
-}
-
-function saveCards(cards: Card[]) {
-  localStorage.setItem(CARDS_KEY_PREFIX, JSON.stringify(cards));
-}
+import type { Card } from '../types';
+import { cardsRepository, onStorageSync } from '../utils/storage';
 
 export function SentenceCategoryPage() {
-  const [cards, setCards] = useState<Card[]>(() => loadCards());
+  const [cards, setCards] = useState<Card[]>(() => cardsRepository.load('sentences'));
   const [showAdd, setShowAdd] = useState(false);
   const [name, setName] = useState('');
   const [renamingId, setRenamingId] = useState<string | null>(null);
@@ -32,11 +12,15 @@ export function SentenceCategoryPage() {
   const navigate = useNavigate();
 
   useEffect(() => {
-    setCards(loadCards());
+    setCards(cardsRepository.load('sentences'));
     setShowAdd(false);
     setName('');
   }, []);
 
+  useEffect(() => onStorageSync(change => {
+    if (cardsRepository.isAffected(change, 'sentences')) setCards(cardsRepository.load('sentences'));
+  }), []);
+
   const sortedCards = useMemo(() => {
     return [...cards].sort((a, b) => b.createdAt - a.createdAt);
   }, [cards]);
@@ -53,27 +37,16 @@ export function SentenceCategoryPage() {
     const newCard: Card = { id, name: trimmed, createdAt: Date.now() };
     const next = [newCard, ...cards];
     setCards(next);
-    saveCards(next);
+    cardsRepository.save('sentences', next);
     setName('');
     setShowAdd(false);
   }
 
   function handleDelete(cardId: string) {
-    const confirmed = window.confirm('Xóa thẻ này? Dữ liệu bên trong vẫn được giữ.');
+    const confirmed = window.confirm('Chuyển thẻ này vào thùng rác? Có thể khôi phục lại trong Thùng rác.');
     if (!confirmed) return;
-    const next = cards.filter(c => c.id !== cardId);
-    setCards(next);
-    saveCards(next);
-  }
-
-  function migrateStorageKeys(oldName: string, newName: string) {
-    const itemsOldKey = `korean-study:sentences:${oldName}`;
-    const itemsNewKey = `korean-study:sentences:${newName}`;
-    const itemsRaw = localStorage.getItem(itemsOldKey);
-    if (itemsRaw != null) {
-      localStorage.setItem(itemsNewKey, itemsRaw);
-      localStorage.removeItem(itemsOldKey);
-    }
+    cardsRepository.moveToTrash('sentences', cardId);
+    setCards(cardsRepository.load('sentences'));
   }
 
   function startRename(card: Card) {
@@ -102,8 +75,7 @@ export function SentenceCategoryPage() {
     }
     const next = cards.map(c => c.id === targetId ? { ...c, name: newName } : c);
     setCards(next);
-    saveCards(next);
-    migrateStorageKeys(old.name, newName);
+    cardsRepository.save('sentences', next);
     setRenamingId(null);
     setRenameValue('');
   }
@@ -121,6 +93,7 @@ export function SentenceCategoryPage() {
           <div style={{ fontWeight: 600, fontSize: 18 }}>Danh sách thẻ</div>
         </div>
         <div className="spacer" />
+        <Link className="btn" to="/trash">Thùng rác</Link>
         <button className="btn primary" onClick={() => setShowAdd(true)}>+ Thêm thẻ</button>
       </div>
 
@@ -132,7 +105,7 @@ export function SentenceCategoryPage() {
         </div>
         <div className="tbody">
           {sortedCards.map(card => (
-            <div className="row" key={card.id} style={{ cursor: 'pointer' }} onClick={() => navigate(`/sentences/${card.name}`)}>
+            <div className="row" key={card.id} style={{ cursor: 'pointer' }} onClick={() => navigate(`/sentences/${card.id}`)}>
               <div className="cell">
                 <div className="cell-input">{card.name}</div>
               </div>
@@ -140,7 +113,7 @@ export function SentenceCategoryPage() {
                 <div className="cell-input">{new Date(card.createdAt).toLocaleString()}</div>
               </div>
               <div className="cell actions">
-                <Link className="btn small" to={`/sentences/${card.name}`} onClick={(e) => e.stopPropagation()}>Mở</Link>
+                <Link className="btn small" to={`/sentences/${card.id}`} onClick={(e) => e.stopPropagation()}>Mở</Link>
                 <button className="btn small" onClick={(e) => { e.stopPropagation(); startRename(card); }}>Sửa</button>
                 <button className="btn small danger" onClick={(e) => { e.stopPropagation(); handleDelete(card.id); }}>Xóa</button>
               </div>
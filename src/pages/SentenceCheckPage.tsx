@@ -2,98 +2,23 @@ import { useEffect, useMemo, useRef, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import type { SentenceItem } from '../types';
 import { normalizeNewlines } from '../utils/text';
-import { loadWrongIds, saveWrongIds } from '../utils/csv';
-import { speakKorean } from '../utils/speech';
-
-const STORAGE_KEY_PREFIX = 'korean-study:sentences';
-
-function loadSentences(cardId?: string): SentenceItem[] {
-  const key = cardId ? `${STORAGE_KEY_PREFIX}:${cardId}` : STORAGE_KEY_PREFIX;
-  const raw = localStorage.getItem(key);
-  if (!raw) return [];
-  try {
-    return JSON.parse(raw) as SentenceItem[];
-  } catch {
-    return [];
-  }
-}
-
-// Load input history for a sentence
-function loadInputHistory(sentenceId: string, cardId?: string): string {
-  const historyKey = `korean-study:sentence-input-history:${cardId ? `${cardId}:` : ''}${sentenceId}`;
-  const raw = localStorage.getItem(historyKey);
-  return raw || '';
-}
-
-// Save input history for a sentence
-function saveInputHistory(sentenceId: string, input: string, cardId?: string) {
-  const historyKey = `korean-study:sentence-input-history:${cardId ? `${cardId}:` : ''}${sentenceId}`;
-  localStorage.setItem(historyKey, input);
-}
-
-// Load correct sentences (sentences that were answered correctly)
-function loadCorrectSentences(cardId?: string, isWrongOnlyMode?: boolean): Set<string> {
-  const correctKey = isWrongOnlyMode
-    ? `korean-study:sentence-correct-wrong:${cardId ? `${cardId}:` : ''}all`
-    : `korean-study:sentence-correct:${cardId ? `${cardId}:` : ''}all`;
-  const raw = localStorage.getItem(correctKey);
-  if (!raw) return new Set();
-  try {
-    const parsed = JSON.parse(raw) as { ids: string[]; savedAt: number };
-    const EIGHT_HOURS_MS = 8 * 60 * 60 * 1000;
-    if (!parsed || !Array.isArray(parsed.ids) || !parsed.savedAt || Date.now() - parsed.savedAt > EIGHT_HOURS_MS) {
-      localStorage.removeItem(correctKey);
-      return new Set();
-    }
-    return new Set(parsed.ids);
-  } catch {
-    return new Set();
-  }
-}
-
-// Save correct sentence ID
-function saveCorrectSentence(sentenceId: string, cardId?: string, isWrongOnlyMode?: boolean) {
-  const correctKey = isWrongOnlyMode
-    ? `korean-study:sentence-correct-wrong:${cardId ? `${cardId}:` : ''}all`
-    : `korean-study:sentence-correct:${cardId ? `${cardId}:` : ''}all`;
-  const current = loadCorrectSentences(cardId, isWrongOnlyMode);
-  current.add(sentenceId);
-  localStorage.setItem(correctKey, JSON.stringify({
-    ids: Array.from(current),
-    savedAt: Date.now()
-  }));
-}
-
-// Split Korean sentence into words (simple word segmentation)
-function splitKoreanWords(sentence: string): string[] {
-  // Remove punctuation and split by spaces
-  const cleaned = sentence.replace(/[.,!?;:]/g, ' ').trim();
-  return cleaned.split(/\s+/).filter(w => w.length > 0);
-}
-
-// Compare user input with correct sentence word by word
-function compareSentences(userInput: string, correctSentence: string): Array<{ word: string; isCorrect: boolean }> {
-  const userWords = splitKoreanWords(userInput);
-  const correctWords = splitKoreanWords(correctSentence);
-  
-  const result: Array<{ word: string; isCorrect: boolean }> = [];
-  const maxLen = Math.max(userWords.length, correctWords.length);
-  
-  for (let i = 0; i < maxLen; i++) {
-    const userWord = userWords[i] || '';
-    const correctWord = correctWords[i] || '';
-    
-    if (i < userWords.length) {
-      // Check if word matches (case-insensitive, trim spaces)
-      const isCorrect = userWord.trim().toLowerCase() === correctWord.trim().toLowerCase();
-      result.push({ word: userWord, isCorrect });
-    } else {
-      // User input is shorter - mark missing words as incorrect
-      result.push({ word: '', isCorrect: false });
-    }
-  }
-  
-  return result;
+import { speak } from '../utils/speech';
+import { getStudyLanguage } from '../utils/language';
+import { itemsRepository, progressRepository, wrongItemsRepository, inputHistoryRepository, onStorageSync } from '../utils/storage';
+import { reconcileDeck } from '../utils/deck';
+import { reviewItem, getLearnedIds, withHints, QUALITY_CORRECT, QUALITY_WRONG, type ReviewQuality, type Schedule } from '../utils/srs';
+import { compareSentences, type WordResult } from '../utils/sentence';
+import { SentenceDiff } from '../components/SentenceDiff';
+import { HintPanel } from '../components/HintPanel';
+import { HangulKeyboard } from '../components/HangulKeyboard';
+import { RomajiToggle } from '../components/RomajiToggle';
+import { romajiToKana, loadRomajiSettings, saveRomajiSettings, type RomajiSettings } from '../utils/kana';
+import { buildHints } from '../utils/hints';
+
+// Record a review for a sentence and return the updated schedule
+function saveSentenceReview(sentenceId: string, quality: ReviewQuality, cardId?: string, isWrongOnlyMode?: boolean, hintsUsed = 0): Schedule {
+  const mode = isWrongOnlyMode ? 'check-wrong' : 'check';
+  return progressRepository.updateItem(mode, 'sentences', sentenceId, state => reviewItem(state, quality, Date.now(), hintsUsed), cardId);
 }
 
 // Parse vocabulary: word|category|hanviet\nword2|category2|hanviet2
@@ -127,23 +52,50 @@ export function SentenceCheckPage() {
   const navigate = useNavigate();
   
   // Check if we're in wrong-only mode (must be before useState that uses it)
-  const wrongOnlyKey = `korean-study:check-wrong-only:sentences${cardId ? `:${cardId}` : ''}`;
-  const isWrongOnlyMode = localStorage.getItem(wrongOnlyKey) === 'true';
+  const isWrongOnlyMode = progressRepository.isWrongOnly('sentences', cardId);
   
-  const [items] = useState<SentenceItem[]>(() => loadSentences(cardId));
-  const [correctIds, setCorrectIds] = useState<Set<string>>(() => loadCorrectSentences(cardId, isWrongOnlyMode));
+  const [items, setItems] = useState<SentenceItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [schedule, setSchedule] = useState<Schedule>(() => progressRepository.load(isWrongOnlyMode ? 'check-wrong' : 'check', 'sentences', cardId));
+  const correctIds = useMemo(() => getLearnedIds(schedule), [schedule]);
   const [shuffledDeck, setShuffledDeck] = useState<SentenceItem[]>([]);
   const [index, setIndex] = useState(0);
   const [userInput, setUserInput] = useState('');
   const [showResult, setShowResult] = useState(false);
-  const [comparisonResult, setComparisonResult] = useState<Array<{ word: string; isCorrect: boolean }>>([]);
+  const [comparisonResult, setComparisonResult] = useState<WordResult[]>([]);
   const [previousWrongInput, setPreviousWrongInput] = useState<string>('');
+  const [hintsUsed, setHintsUsed] = useState(0);
+  const [romaji, setRomaji] = useState<RomajiSettings>(loadRomajiSettings);
+  // Romaji typed for a Japanese sentence is turned into kana as you go
+  const convertsRomaji = romaji.enabled && getStudyLanguage() === 'ja';
   
   // Load wrong IDs if in wrong-only mode
-  const wrongIds = useMemo(() => {
+  const [wrongIds, setWrongIds] = useState<Set<string>>(() => {
     if (!isWrongOnlyMode) return new Set<string>();
-    return loadWrongIds('sentences', cardId);
-  }, [isWrongOnlyMode, cardId]);
+    return wrongItemsRepository.load('sentences', cardId);
+  });
+
+  // Sentences are read from IndexedDB after mount
+  useEffect(() => {
+    let cancelled = false;
+    itemsRepository.load('sentences', cardId).then(loaded => {
+      if (cancelled) return;
+      setItems(loaded);
+      setLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [cardId]);
+
+  // Reconcile with answers and edits made in other tabs
+  useEffect(() => onStorageSync(change => {
+    if (progressRepository.isAffected(change, 'sentences', cardId)) {
+      setSchedule(progressRepository.load(isWrongOnlyMode ? 'check-wrong' : 'check', 'sentences', cardId));
+      if (isWrongOnlyMode) setWrongIds(wrongItemsRepository.load('sentences', cardId));
+    }
+    if (itemsRepository.isAffected(change, 'sentences', cardId)) {
+      itemsRepository.load('sentences', cardId).then(setItems);
+    }
+  }), [cardId, isWrongOnlyMode]);
 
   // Initialize shuffled deck when items change, filter out correct sentences
   useEffect(() => {
@@ -154,24 +106,20 @@ export function SentenceCheckPage() {
       deckAll = deckAll.filter(i => wrongIds.has(i.id));
     }
     
-    if (deckAll.length > 0) {
-      const shuffled = [...deckAll].sort(() => Math.random() - 0.5);
-      setShuffledDeck(shuffled);
-      setIndex(0);
-    } else {
-      setShuffledDeck([]);
-      setIndex(0);
-    }
+    // Shuffled once; later reloads keep the order so the current sentence does not jump
+    setShuffledDeck(prev => reconcileDeck(prev, deckAll));
   }, [items, correctIds, isWrongOnlyMode, wrongIds]);
 
   const deck = useMemo(() => shuffledDeck.filter(i => !correctIds.has(i.id)), [shuffledDeck, correctIds]);
   const current = deck[index];
   const correctCount = correctIds.size;
+  // No example sentences here, so only syllable count, first jamo and first syllable
+  const hints = useMemo(() => current ? buildHints(current.sentence) : [], [current]);
 
   // Load previous input when card changes
   useEffect(() => {
     if (current) {
-      const previousInput = loadInputHistory(current.id, cardId);
+      const previousInput = inputHistoryRepository.load(current.id, cardId);
       // Check if previous input was wrong (not all words correct)
       if (previousInput) {
         const prevComparison = compareSentences(previousInput, current.sentence);
@@ -191,6 +139,7 @@ export function SentenceCheckPage() {
       }
       setShowResult(false);
       setComparisonResult([]);
+      setHintsUsed(0);
     }
   }, [current, cardId]);
 
@@ -214,6 +163,7 @@ export function SentenceCheckPage() {
       setShowResult(false);
       setUserInput('');
       setComparisonResult([]);
+      setHintsUsed(0);
       // Don't change index, just reset the state
       return;
     }
@@ -229,6 +179,7 @@ export function SentenceCheckPage() {
       setShowResult(false);
       setUserInput('');
       setComparisonResult([]);
+      setHintsUsed(0);
       // Don't change index, just reset the state
       return;
     }
@@ -237,27 +188,28 @@ export function SentenceCheckPage() {
 
   function checkAnswer() {
     if (!current) return;
-    
-    const comparison = compareSentences(userInput, current.sentence);
+
+    // A trailing "n" is still waiting for the next letter while typing
+    const answer = convertsRomaji ? romajiToKana(userInput, { katakana: romaji.katakana, final: true }) : userInput;
+    if (answer !== userInput) setUserInput(answer);
+    const comparison = compareSentences(answer, current.sentence);
     setComparisonResult(comparison);
     setShowResult(true);
 
-    // Luôn phát âm câu tiếng Hàn sau khi kiểm tra (đúng hoặc sai)
-    speakKorean(current.sentence);
+    // Luôn phát âm câu (theo ngôn ngữ đang học) sau khi kiểm tra (đúng hoặc sai)
+    speak(current.sentence);
     
     // Check if all words are correct
     const allCorrect = comparison.length > 0 && comparison.every(r => r.isCorrect);
     
     if (allCorrect) {
-      // Mark as correct and save
-      const newCorrectIds = new Set(correctIds);
-      newCorrectIds.add(current.id);
-      setCorrectIds(newCorrectIds);
-      saveCorrectSentence(current.id, cardId, isWrongOnlyMode);
+      // Schedule the next review further out
+      const nextSchedule = saveSentenceReview(current.id, withHints(QUALITY_CORRECT, hintsUsed), cardId, isWrongOnlyMode, hintsUsed);
+      setSchedule(nextSchedule);
+      const newCorrectIds = getLearnedIds(nextSchedule);
       
       // Clear wrong input history when answer is correct
-      const historyKey = `korean-study:sentence-input-history:${cardId ? `${cardId}:` : ''}${current.id}`;
-      localStorage.removeItem(historyKey);
+      inputHistoryRepository.remove(current.id, cardId);
       setPreviousWrongInput('');
       // Don't remove from wrong items - keep history of wrong answers
       
@@ -272,18 +224,24 @@ export function SentenceCheckPage() {
           setShowResult(false);
           setUserInput('');
           setComparisonResult([]);
+          setHintsUsed(0);
         }
       }, 1000);
     } else {
       // Save wrong input as history
-      saveInputHistory(current.id, userInput, cardId);
+      inputHistoryRepository.save(current.id, answer, cardId);
+      // Bring the sentence back soon (it is already in the deck, so learned ids don't change)
+      saveSentenceReview(current.id, withHints(QUALITY_WRONG, hintsUsed), cardId, isWrongOnlyMode);
       // Save wrong sentence flag to localStorage
-      const currentWrongIds = loadWrongIds('sentences', cardId);
-      currentWrongIds.add(current.id);
-      saveWrongIds('sentences', currentWrongIds, cardId);
+      wrongItemsRepository.add('sentences', current.id, cardId);
     }
   }
 
+  function changeRomaji(settings: RomajiSettings) {
+    setRomaji(settings);
+    saveRomajiSettings(settings);
+  }
+
   // Autofocus input when card changes and result is hidden
   const inputRef = useRef<HTMLInputElement>(null);
   useEffect(() => {
@@ -318,7 +276,7 @@ export function SentenceCheckPage() {
           <div className="toolbar">
             <button className="btn" onClick={() => {
               if (isWrongOnlyMode) {
-                localStorage.removeItem(wrongOnlyKey);
+                progressRepository.setWrongOnly('sentences', false, cardId);
               }
               navigate(cardId ? `/sentences/${cardId}` : '/sentences');
             }}>
@@ -326,7 +284,7 @@ export function SentenceCheckPage() {
             </button>
           </div>
           <div className="empty">
-            {isWrongOnlyMode ? 'Chưa có câu nào đã nhập sai để kiểm tra.' : 'Chưa có dữ liệu để kiểm tra.'}
+            {loading ? 'Đang tải dữ liệu...' : isWrongOnlyMode ? 'Chưa có câu nào đã nhập sai để kiểm tra.' : 'Chưa có dữ liệu để kiểm tra.'}
           </div>
         </div>
       );
@@ -338,7 +296,7 @@ export function SentenceCheckPage() {
         <div className="toolbar">
           <button className="btn" onClick={() => {
             if (isWrongOnlyMode) {
-              localStorage.removeItem(wrongOnlyKey);
+              progressRepository.setWrongOnly('sentences', false, cardId);
             }
             navigate(cardId ? `/sentences/${cardId}` : '/sentences');
           }}>
@@ -380,11 +338,8 @@ export function SentenceCheckPage() {
           </div>
           <button className="btn primary" onClick={() => {
             // Reset correct sentences
-            const correctKey = isWrongOnlyMode
-              ? `korean-study:sentence-correct-wrong:${cardId ? `${cardId}:` : ''}all`
-              : `korean-study:sentence-correct:${cardId ? `${cardId}:` : ''}all`;
-            localStorage.removeItem(correctKey);
-            setCorrectIds(new Set());
+            progressRepository.clear(isWrongOnlyMode ? 'check-wrong' : 'check', 'sentences', cardId);
+            setSchedule({});
             // Reload page
             window.location.reload();
           }}>
@@ -475,7 +430,7 @@ export function SentenceCheckPage() {
                 type="text"
                 className="input"
                 value={userInput}
-                onChange={(e) => setUserInput(e.target.value)}
+                onChange={(e) => setUserInput(convertsRomaji ? romajiToKana(e.target.value, { katakana: romaji.katakana }) : e.target.value)}
                 onKeyPress={handleKeyPress}
                 placeholder={previousWrongInput ? "Nhập lại câu tiếng Hàn..." : "Nhập câu tiếng Hàn..."}
                 disabled={showResult}
@@ -483,6 +438,15 @@ export function SentenceCheckPage() {
               />
             </div>
 
+            {getStudyLanguage() === 'ja' && (
+              <RomajiToggle settings={romaji} onChange={changeRomaji} disabled={showResult} />
+            )}
+            {getStudyLanguage() === 'ko' && (
+              <HangulKeyboard inputRef={inputRef} onType={setUserInput} disabled={showResult} />
+            )}
+
+            <HintPanel hints={hints} used={hintsUsed} onReveal={() => setHintsUsed(prev => prev + 1)} disabled={showResult} />
+
             {/* Check button */}
             {!showResult && (
               <button className="btn primary" onClick={checkAnswer} style={{ width: '100%' }}>
@@ -511,7 +475,9 @@ export function SentenceCheckPage() {
                       Chính xác!
                     </div>
                     <div style={{ fontSize: '14px', color: 'var(--text-secondary)' }}>
-                      Câu này sẽ được bỏ qua trong lần kiểm tra tiếp theo.
+                      {hintsUsed > 0
+                        ? `Đã dùng ${hintsUsed} gợi ý nên câu này sẽ được ôn lại sớm hơn.`
+                        : 'Câu này sẽ được bỏ qua trong lần kiểm tra tiếp theo.'}
                     </div>
                   </div>
 
@@ -565,27 +531,9 @@ export function SentenceCheckPage() {
                       padding: '16px', 
                       background: 'var(--panel)', 
                       borderRadius: '8px',
-                      border: '1px solid var(--border)',
-                      display: 'flex',
-                      flexWrap: 'wrap',
-                      gap: '4px',
-                      fontSize: '16px',
-                      lineHeight: '1.6'
+                      border: '1px solid var(--border)'
                     }}>
-                      {comparisonResult.map((item, idx) => (
-                        <span
-                          key={idx}
-                          style={{
-                            color: item.isCorrect ? '#22c55e' : '#ef4444',
-                            fontWeight: item.isCorrect ? 500 : 400,
-                            backgroundColor: item.isCorrect ? 'rgba(34, 197, 94, 0.1)' : 'rgba(239, 68, 68, 0.1)',
-                            padding: '2px 6px',
-                            borderRadius: '4px'
-                          }}
-                        >
-                          {item.word || '(thiếu)'}
-                        </span>
-                      ))}
+                      <SentenceDiff result={comparisonResult} />
                     </div>
                   </div>
 
@@ -611,7 +559,7 @@ export function SentenceCheckPage() {
                       <button
                         className="btn small"
                         type="button"
-                        onClick={() => speakKorean(current.sentence)}
+                        onClick={() => speak(current.sentence)}
                         title="Phát âm câu đúng"
                         style={{ flexShrink: 0, padding: '4px 8px' }}
                       >
@@ -1,40 +1,51 @@
 import { useEffect, useMemo, useState } from 'react';
 import type { SentenceItem } from '../types';
-import { exportSentencesToCSV, parseSentencesCSV, areItemsDifferent } from '../utils/csv';
+import { exportSentencesToCSV, parseSentencesCSV } from '../utils/csv';
+import { buildImportPreview, applyImportChoices, type ImportChoice, type ImportRow } from '../utils/importPreview';
+import { ImportPreviewModal } from '../components/ImportPreviewModal';
 import { normalizeNewlines } from '../utils/text';
-import { speakKorean } from '../utils/speech';
+import { speak } from '../utils/speech';
+import { cardsRepository, itemsRepository, progressRepository, wrongItemsRepository, inputHistoryRepository, onStorageSync } from '../utils/storage';
 import { useParams, useNavigate } from 'react-router-dom';
 
-const STORAGE_KEY_PREFIX = 'korean-study:sentences';
-
-function loadSentences(cardId?: string): SentenceItem[] {
-  const key = cardId ? `${STORAGE_KEY_PREFIX}:${cardId}` : STORAGE_KEY_PREFIX;
-  const raw = localStorage.getItem(key);
-  if (!raw) return [];
-  try { return JSON.parse(raw) as SentenceItem[]; } catch { return []; }
-}
-
-function saveSentences(items: SentenceItem[], cardId?: string) {
-  const key = cardId ? `${STORAGE_KEY_PREFIX}:${cardId}` : STORAGE_KEY_PREFIX;
-  localStorage.setItem(key, JSON.stringify(items));
-}
-
 export function SentenceListPage() {
   const { cardId } = useParams();
   const navigate = useNavigate();
-  const [items, setItems] = useState<SentenceItem[]>(() => loadSentences(cardId));
+  const [items, setItems] = useState<SentenceItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
   const [selected, setSelected] = useState<SentenceItem | null>(null);
   const [query, setQuery] = useState('');
+  const [importRows, setImportRows] = useState<ImportRow<SentenceItem>[] | null>(null);
+  const cardName = cardsRepository.find('sentences', cardId)?.name ?? cardId;
 
   useEffect(() => {
-    saveSentences(items, cardId);
-  }, [items, cardId]);
-
-  useEffect(() => {
-    setItems(loadSentences(cardId));
+    let cancelled = false;
+    setLoading(true);
+    setLoadFailed(false);
     setSelected(null);
+    itemsRepository.load('sentences', cardId)
+      .then(loaded => {
+        if (cancelled) return;
+        setItems(loaded);
+        setLoading(false);
+      })
+      .catch(error => {
+        console.error('Could not load items:', error);
+        if (cancelled) return;
+        setLoadFailed(true);
+        setLoading(false);
+      });
+    return () => { cancelled = true; };
   }, [cardId]);
 
+  // Items are written one by one, so reloading picks up other tabs' edits without losing ours
+  useEffect(() => onStorageSync(change => {
+    if (itemsRepository.isAffected(change, 'sentences', cardId)) {
+      itemsRepository.load('sentences', cardId).then(setItems).catch(error => console.error('Could not reload items:', error));
+    }
+  }), [cardId]);
+
   const filtered = useMemo(() => {
     const q = query.trim().toLowerCase();
     if (!q) return items;
@@ -49,23 +60,25 @@ export function SentenceListPage() {
     const file = e.target.files?.[0];
     if (!file) return;
     parseSentencesCSV(file).then(newItems => {
-      setItems(prev => {
-        const map = new Map<string, SentenceItem>();
-        [...prev, ...newItems].forEach(i => map.set(i.id, i));
-        const mergedItems = Array.from(map.values());
-        
-        if (areItemsDifferent(prev, mergedItems)) {
-          // Could clear flashcard storage if needed in the future
-        }
-        
-        return mergedItems;
-      });
+      setImportRows(buildImportPreview(items, newItems));
       e.target.value = '';
     });
   }
 
+  function confirmImport(choices: Record<string, ImportChoice>) {
+    if (!importRows) return;
+    const result = applyImportChoices(items, importRows, choices);
+    setItems(result.items);
+    itemsRepository.put('sentences', result.written, cardId);
+    progressRepository.clearItems('sentences', result.changedIds, cardId);
+    wrongItemsRepository.remove('sentences', result.changedIds, cardId);
+    result.changedIds.forEach(id => inputHistoryRepository.remove(id, cardId));
+    setImportRows(null);
+  }
+
   function removeItem(id: string) {
     setItems(prev => prev.filter(i => i.id !== id));
+    itemsRepository.remove('sentences', id, cardId);
   }
 
   function handleClearAll() {
@@ -73,6 +86,7 @@ export function SentenceListPage() {
     if (!confirmed) return;
     setSelected(null);
     setItems([]);
+    itemsRepository.save('sentences', [], cardId);
   }
 
   // Parse vocabulary: word|category|hanviet\nword2|category2|hanviet2
@@ -110,15 +124,16 @@ export function SentenceListPage() {
           Import CSV
           <input type="file" accept=".csv" onChange={handleImportChange} hidden />
         </label>
-        <label className="btn" onClick={() => exportSentencesToCSV(items, `sentences_${cardId || 'all'}.csv`)}>Export CSV</label>
+        <label className="btn" onClick={() => exportSentencesToCSV(items, `sentences_${cardName || 'all'}.csv`)}>Export CSV</label>
         <label className="btn danger" onClick={handleClearAll}>Xóa tất cả</label>
         <label className="btn" onClick={() => navigate(cardId ? `/sentences/${cardId}/wrong` : '/sentences/wrong')}>Từ đã sai</label>
         <label className="btn" onClick={() => {
           // Clear wrong-only mode flag when entering check from list page
-          const wrongOnlyKey = `korean-study:check-wrong-only:sentences${cardId ? `:${cardId}` : ''}`;
-          localStorage.removeItem(wrongOnlyKey);
+          progressRepository.setWrongOnly('sentences', false, cardId);
           navigate(cardId ? `/sentences/${cardId}/check` : '/sentences/check');
         }}>Kiểm tra</label>
+        <label className="btn" onClick={() => navigate(cardId ? `/sentences/${cardId}/dictation` : '/sentences/dictation')}>Nghe viết</label>
+        <label className="btn" onClick={() => navigate(cardId ? `/sentences/${cardId}/scramble` : '/sentences/scramble')}>Sắp xếp câu</label>
       </div>
 
       <div className="table">
@@ -143,7 +158,7 @@ export function SentenceListPage() {
             );
           })}
           {filtered.length === 0 && (
-            <div className="empty">Chưa có dữ liệu. Hãy import CSV.</div>
+            <div className="empty">{loading ? 'Đang tải dữ liệu...' : loadFailed ? 'Không thể tải dữ liệu. Hãy tải lại trang.' : 'Chưa có dữ liệu. Hãy import CSV.'}</div>
           )}
         </div>
       </div>
@@ -172,8 +187,8 @@ export function SentenceListPage() {
                   <button
                     className="btn small"
                     type="button"
-                    onClick={() => speakKorean(selected.sentence)}
-                    title="Phát âm câu tiếng Hàn"
+                    onClick={() => speak(selected.sentence)}
+                    title="Phát âm câu"
                     style={{ flexShrink: 0, padding: '4px 8px' }}
                   >
                     🔊
@@ -229,6 +244,16 @@ export function SentenceListPage() {
           </div>
         </div>
       )}
+
+      {importRows && (
+        <ImportPreviewModal
+          rows={importRows}
+          fieldLabels={{ sentence: 'Câu', vietnamese: 'Tiếng Việt', vocabulary: 'Từ vựng', grammar: 'Ngữ pháp' }}
+          titleOf={(item) => item.sentence}
+          onCancel={() => setImportRows(null)}
+          onConfirm={confirmImport}
+        />
+      )}
     </div>
   );
 }
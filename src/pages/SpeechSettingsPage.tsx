@@ -0,0 +1,106 @@
+import { useEffect, useState } from 'react';
+import { getTargetLanguageLabel, type StudyLanguage } from '../utils/language';
+import {
+  loadSpeechSettings,
+  saveSpeechSettings,
+  voicesFor,
+  onVoicesChanged,
+  localeOf,
+  speak,
+  RATE_RANGE,
+  PITCH_RANGE,
+  DEFAULT_SPEECH_SETTINGS,
+  type SpeechSettings
+} from '../utils/speech';
+
+const LANGUAGES: StudyLanguage[] = ['ko', 'ja'];
+
+const SAMPLE_TEXT: Record<StudyLanguage, string> = {
+  ko: '안녕하세요. 만나서 반갑습니다.',
+  ja: 'こんにちは。はじめまして。'
+};
+
+// Voice, rate and pitch for each study language; every 🔊 button reads them through speak()
+export function SpeechSettingsPage() {
+  const [settings, setSettings] = useState<Record<StudyLanguage, SpeechSettings>>(() => ({
+    ko: loadSpeechSettings('ko'),
+    ja: loadSpeechSettings('ja')
+  }));
+  // Bumped when the browser finishes loading its voice list
+  const [, setVoicesVersion] = useState(0);
+
+  useEffect(() => onVoicesChanged(() => setVoicesVersion(prev => prev + 1)), []);
+
+  function update(language: StudyLanguage, next: SpeechSettings) {
+    setSettings(prev => ({ ...prev, [language]: next }));
+    saveSpeechSettings(next, language);
+  }
+
+  return (
+    <div className="list-page">
+      <div className="toolbar">
+        <div style={{ fontWeight: 600, fontSize: 18 }}>Giọng đọc</div>
+      </div>
+
+      <div style={{ maxWidth: 'min(720px, calc(100vw - 32px))', margin: '0 auto', padding: '16px', display: 'grid', gap: 16 }}>
+        {LANGUAGES.map(language => {
+          const current = settings[language];
+          const voices = voicesFor(language);
+          return (
+            <div key={language} className="card" style={{ padding: '16px', display: 'grid', gap: 12 }}>
+              <div style={{ fontWeight: 600, fontSize: 16 }}>{getTargetLanguageLabel(language)}</div>
+
+              <label style={{ display: 'grid', gap: 4, fontSize: 14 }}>
+                Giọng
+                <select
+                  className="input"
+                  value={current.voiceURI}
+                  onChange={(e) => update(language, { ...current, voiceURI: e.target.value })}
+                >
+                  <option value="">Tự động ({localeOf(language)})</option>
+                  {voices.map(voice => (
+                    <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name} ({voice.lang})</option>
+                  ))}
+                </select>
+              </label>
+              {voices.length === 0 && (
+                <div className="label" style={{ fontSize: 13 }}>
+                  Trình duyệt chưa có giọng {localeOf(language)}; sẽ thử đọc bằng giọng mặc định của hệ thống.
+                </div>
+              )}
+
+              <label style={{ display: 'grid', gap: 4, fontSize: 14 }}>
+                Tốc độ: {current.rate.toFixed(1)}
+                <input
+                  type="range"
+                  min={RATE_RANGE.min}
+                  max={RATE_RANGE.max}
+                  step={0.1}
+                  value={current.rate}
+                  onChange={(e) => update(language, { ...current, rate: Number(e.target.value) })}
+                />
+              </label>
+
+              <label style={{ display: 'grid', gap: 4, fontSize: 14 }}>
+                Cao độ: {current.pitch.toFixed(1)}
+                <input
+                  type="range"
+                  min={PITCH_RANGE.min}
+                  max={PITCH_RANGE.max}
+                  step={0.1}
+                  value={current.pitch}
+                  onChange={(e) => update(language, { ...current, pitch: Number(e.target.value) })}
+                />
+              </label>
+
+              <div style={{ display: 'flex', gap: 8 }}>
+                <button className="btn" type="button" onClick={() => speak(SAMPLE_TEXT[language], 1, language)}>🔊 Nghe thử</button>
+                <button className="btn" type="button" onClick={() => update(language, DEFAULT_SPEECH_SETTINGS)}>Mặc định</button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import type { CardCategory, TrashedCard } from '../types';
+import { cardsRepository } from '../utils/storage';
+
+const CATEGORY_LABELS: Record<CardCategory, string> = {
+  vocab: 'Từ vựng',
+  grammar: 'Ngữ pháp',
+  notes: 'Note',
+  sentences: 'Câu'
+};
+
+type TrashEntry = {
+  category: CardCategory;
+  card: TrashedCard;
+};
+
+function loadTrash(): TrashEntry[] {
+  return (Object.keys(CATEGORY_LABELS) as CardCategory[])
+    .flatMap(category => cardsRepository.loadTrash(category).map(card => ({ category, card })))
+    .sort((a, b) => b.card.deletedAt - a.card.deletedAt);
+}
+
+export function TrashPage() {
+  const [entries, setEntries] = useState<TrashEntry[]>(() => loadTrash());
+
+  function handleRestore(entry: TrashEntry) {
+    const name = cardsRepository.restore(entry.category, entry.card.id);
+    setEntries(loadTrash());
+    if (name && name !== entry.card.name) {
+      window.alert(`Đã có thẻ tên "${entry.card.name}", thẻ được khôi phục với tên "${name}".`);
+    }
+  }
+
+  function handlePurge(entry: TrashEntry) {
+    const confirmed = window.confirm(`Xóa vĩnh viễn thẻ "${entry.card.name}" cùng toàn bộ dữ liệu và tiến độ học?`);
+    if (!confirmed) return;
+    cardsRepository.purge(entry.category, entry.card.id).then(() => setEntries(loadTrash()));
+  }
+
+  function handlePurgeAll() {
+    const confirmed = window.confirm('Xóa vĩnh viễn mọi thẻ trong thùng rác? Không thể hoàn tác.');
+    if (!confirmed) return;
+    Promise.all(entries.map(e => cardsRepository.purge(e.category, e.card.id))).then(() => setEntries(loadTrash()));
+  }
+
+  return (
+    <div className="list-page">
+      <div className="toolbar">
+        <div style={{ fontWeight: 600, fontSize: 18 }}>Thùng rác</div>
+        <div className="spacer" />
+        <Link className="btn" to="/maintenance">Dọn dẹp dữ liệu</Link>
+        <button className="btn danger" onClick={handlePurgeAll} disabled={entries.length === 0}>Dọn sạch thùng rác</button>
+      </div>
+
+      <div className="table cards">
+        <div className="thead">
+          <div>Tên thẻ</div>
+          <div>Ngày xóa</div>
+          <div>Hành động</div>
+        </div>
+        <div className="tbody">
+          {entries.map(entry => (
+            <div className="row" key={`${entry.category}:${entry.card.id}`}>
+              <div className="cell" style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                <span className={`badge ${entry.category === 'sentences' ? 'notes' : entry.category}`}>{CATEGORY_LABELS[entry.category]}</span>
+                <div className="cell-input">{entry.card.name}</div>
+              </div>
+              <div className="cell">
+                <div className="cell-input">{new Date(entry.card.deletedAt).toLocaleString()}</div>
+              </div>
+              <div className="cell actions">
+                <button className="btn small" onClick={() => handleRestore(entry)}>Khôi phục</button>
+                <button className="btn small danger" onClick={() => handlePurge(entry)}>Xóa vĩnh viễn</button>
+              </div>
+            </div>
+          ))}
+          {entries.length === 0 && (
+            <div className="empty">Thùng rác trống.</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
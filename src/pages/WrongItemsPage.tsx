@@ -1,33 +1,10 @@
 import { useEffect, useState } from 'react';
 import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import type { StudyItem, SentenceItem } from '../types';
-import { exportToCSV, exportSentencesToCSV, loadWrongIds } from '../utils/csv';
+import { exportToCSV, exportSentencesToCSV } from '../utils/csv';
 import { ItemModal } from '../components/ItemModal';
 import { normalizeNewlines } from '../utils/text';
-
-const STORAGE_KEY_PREFIX = 'korean-study:';
-
-function loadItems(category: string, cardId?: string): StudyItem[] {
-  const key = STORAGE_KEY_PREFIX + (cardId ? `${category}:${cardId}` : category);
-  const raw = localStorage.getItem(key);
-  if (!raw) return [];
-  try {
-    return JSON.parse(raw) as StudyItem[];
-  } catch {
-    return [];
-  }
-}
-
-function loadSentences(cardId?: string): SentenceItem[] {
-  const key = cardId ? `${STORAGE_KEY_PREFIX}sentences:${cardId}` : `${STORAGE_KEY_PREFIX}sentences`;
-  const raw = localStorage.getItem(key);
-  if (!raw) return [];
-  try {
-    return JSON.parse(raw) as SentenceItem[];
-  } catch {
-    return [];
-  }
-}
+import { cardsRepository, itemsRepository, progressRepository, wrongItemsRepository } from '../utils/storage';
 
 export function WrongItemsPage() {
   const { cardId } = useParams();
@@ -47,35 +24,35 @@ export function WrongItemsPage() {
 
   useEffect(() => {
     if (!category) return;
+    let cancelled = false;
     
-    const categoryKey = category === 'sentences' ? 'sentences' : category;
-    const ids = loadWrongIds(categoryKey, cardId);
+    const ids = wrongItemsRepository.load(category, cardId);
     
     if (category === 'sentences') {
-      const allSentences = loadSentences(cardId);
-      const wrong = allSentences.filter(s => ids.has(s.id));
-      setWrongSentences(wrong);
+      itemsRepository.load('sentences', cardId).then(allSentences => {
+        if (!cancelled) setWrongSentences(allSentences.filter(s => ids.has(s.id)));
+      });
     } else {
-      const allItems = loadItems(category, cardId);
-      const wrong = allItems.filter(i => ids.has(i.id));
-      setWrongItems(wrong);
+      itemsRepository.load(category, cardId).then(allItems => {
+        if (!cancelled) setWrongItems(allItems.filter(i => ids.has(i.id)));
+      });
     }
+    return () => { cancelled = true; };
   }, [category, cardId]);
 
   function handleExportCSV() {
+    const cardName = (category && cardsRepository.find(category, cardId)?.name) || cardId || 'all';
     if (category === 'sentences') {
-      exportSentencesToCSV(wrongSentences, `wrong_sentences_${cardId || 'all'}.csv`);
+      exportSentencesToCSV(wrongSentences, `wrong_sentences_${cardName}.csv`);
     } else {
-      exportToCSV(wrongItems, `wrong_${category}_${cardId || 'all'}.csv`);
+      exportToCSV(wrongItems, `wrong_${category}_${cardName}.csv`);
     }
   }
 
   function handleCheck() {
     // Set flag to indicate we're checking wrong items only
-    const wrongOnlyKey = category === 'sentences'
-      ? `korean-study:check-wrong-only:sentences${cardId ? `:${cardId}` : ''}`
-      : `korean-study:check-wrong-only:${cardId ? `${category}:${cardId}` : category}`;
-    localStorage.setItem(wrongOnlyKey, 'true');
+    if (!category) return;
+    progressRepository.setWrongOnly(category, true, cardId);
     
     if (category === 'sentences') {
       navigate(cardId ? `/sentences/${cardId}/check` : '/sentences/check');
@@ -1,6 +1,21 @@
+export type CardCategory = 'vocab' | 'grammar' | 'notes' | 'sentences';
+
+export type Card = {
+  id: string;
+  name: string;
+  createdAt: number;
+};
+
+// A deleted card waiting in the trash; its items and progress are kept until it is purged
+export type TrashedCard = Card & {
+  deletedAt: number;
+};
+
 export type StudyItem = {
   id: string;
   korean: string;
+  reading?: string; // kana reading of a Japanese word, shown as furigana
+  romanization?: string; // Korean only; empty means the Revised Romanization is generated
   vietnamese: string;
   english: string;
   description?: string;
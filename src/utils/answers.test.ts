@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { answerVariants, expandOptional, meaningVariants, splitReading, stripAnnotations } from './answers';
+
+describe('stripAnnotations', () => {
+  it('drops romanization and glosses', () => {
+    expect(stripAnnotations('동료 (dong-ryo)')).toBe('동료');
+    expect(stripAnnotations('합니다 formal')).toBe('합니다');
+  });
+
+  it('keeps parentheses with Korean or Japanese inside', () => {
+    expect(stripAnnotations('(으)세요')).toBe('(으)세요');
+    expect(stripAnnotations('食べる（たべる）')).toBe('食べる（たべる）');
+  });
+});
+
+describe('splitReading', () => {
+  it('splits a kanji word from its kana reading', () => {
+    expect(splitReading('食べる（たべる）')).toEqual({ written: '食べる', reading: 'たべる' });
+  });
+
+  it('ignores parentheses that are not a reading', () => {
+    expect(splitReading('(으)세요')).toBeNull();
+    expect(splitReading('たべる (taberu)')).toBeNull();
+  });
+});
+
+describe('expandOptional', () => {
+  it('gives the forms with and without each optional part', () => {
+    expect(expandOptional('(으)세요')).toEqual(['으세요', '세요']);
+    expect(expandOptional('(으)ㄹ 때')).toEqual(['으ㄹ 때', 'ㄹ 때']);
+  });
+});
+
+describe('answerVariants', () => {
+  it('splits words with slash alternatives', () => {
+    expect(answerVariants('은/는')).toEqual(['은/는', '은', '는']);
+    expect(answerVariants('이/가 아닙니다')).toEqual(['이/가 아닙니다', '이 아닙니다', '가 아닙니다']);
+  });
+
+  it('treats a spaced slash as whole alternative answers', () => {
+    expect(answerVariants('약속을 안 지키다 / 못 지키다')).toContain('못 지키다');
+    expect(answerVariants('약속을 안 지키다 / 못 지키다')).toContain('약속을 안 지키다');
+  });
+
+  it('accepts the kanji form and the reading of a Japanese word', () => {
+    expect(answerVariants('食べる（たべる）')).toEqual(['食べる', 'たべる']);
+  });
+
+  it('leaves out the romanization', () => {
+    expect(answerVariants('동료 (dong-ryo)')).toEqual(['동료']);
+  });
+});
+
+describe('meaningVariants', () => {
+  it('lists every meaning with and without its note', () => {
+    expect(meaningVariants('Chiếc (xe; máy), Cái')).toEqual(['Chiếc xe máy', 'Chiếc', 'Cái']);
+  });
+});
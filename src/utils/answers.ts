@@ -0,0 +1,103 @@
+// Turn a stored answer such as "은/는", "(으)ㄹ 때" or "동료 (dong-ryo)" into the forms a learner may type
+
+const TARGET_SCRIPT = /[\p{Script=Hangul}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Han}]/u;
+const LATIN = /\p{Script=Latin}/u;
+const HAN = /\p{Script=Han}/u;
+const KANA_ONLY = /^[\p{Script=Hiragana}\p{Script=Katakana}ー\s]+$/u;
+// "약속을 안 지키다 / 못 지키다" can expand into many combinations; keep the list small
+const MAX_VARIANTS = 32;
+
+// Romanization and glosses: parentheses with no Hangul/Japanese inside, or Latin text after the last target character
+export function stripAnnotations(text: string): string {
+  let stripped = text.replace(/\s*[(（]([^()（）]*)[)）]/g, (group, inner: string) => (TARGET_SCRIPT.test(inner) ? group : ''));
+  const chars = Array.from(stripped);
+  let last = -1;
+  chars.forEach((char, i) => {
+    if (TARGET_SCRIPT.test(char)) last = i;
+  });
+  if (last >= 0 && LATIN.test(chars.slice(last + 1).join(''))) {
+    stripped = chars.slice(0, last + 1).join('');
+  }
+  return stripped.trim();
+}
+
+// "食べる（たべる）": a word with kanji followed by its reading in kana
+export function splitReading(text: string): { written: string; reading: string } | null {
+  const match = text.trim().match(/^(.*?)\s*[(（]([^()（）]+)[)）]$/);
+  if (!match || !HAN.test(match[1]) || !KANA_ONLY.test(match[2])) return null;
+  return { written: match[1].trim(), reading: match[2].trim() };
+}
+
+function product(options: string[][]): string[] {
+  return options.reduce<string[]>(
+    (acc, choices) => acc.flatMap(prefix => choices.map(choice => prefix + choice)).slice(0, MAX_VARIANTS),
+    ['']
+  );
+}
+
+// "(으)세요" -> 으세요, 세요
+export function expandOptional(text: string): string[] {
+  const parts = text.split(/[(（]([^()（）]*)[)）]/);
+  // split() with a capture group alternates plain text and optional groups
+  return product(parts.map((part, i) => (i % 2 === 1 ? [part, ''] : [part])));
+}
+
+// "이/가 아닙니다" -> 이 아닙니다, 가 아닙니다
+function expandWordAlternatives(text: string): string[] {
+  return product(
+    text.split(/(\s+)/).map(token => (token.includes('/') ? token.split('/').filter(Boolean) : [token]))
+  );
+}
+
+export function answerVariants(text: string): string[] {
+  const canonical = stripAnnotations(text);
+  if (!canonical) return [text.trim()];
+  // The kanji form and its reading are each a full answer, not one optional part
+  const reading = splitReading(canonical);
+  if (reading) {
+    return Array.from(new Set([...answerVariants(reading.written), ...answerVariants(reading.reading)])).slice(0, MAX_VARIANTS);
+  }
+  const variants = new Set<string>([canonical]);
+  // A slash with spaces around it separates whole answers, one without separates words
+  canonical.split(/\s+\/\s+/).forEach(answer => {
+    expandWordAlternatives(answer).forEach(alternative => {
+      expandOptional(alternative).forEach(variant => {
+        const cleaned = variant.trim().split(/\s+/).join(' ');
+        if (cleaned) variants.add(cleaned);
+      });
+    });
+  });
+  return Array.from(variants).slice(0, MAX_VARIANTS);
+}
+
+// Split on , ; / outside parentheses: "Chiếc (xe; máy), Cái" -> "Chiếc (xe; máy)", "Cái"
+function splitMeanings(text: string): string[] {
+  const meanings: string[] = [];
+  let depth = 0;
+  let current = '';
+  Array.from(text).forEach(char => {
+    if (char === '(' || char === '（') depth++;
+    if (char === ')' || char === '）') depth = Math.max(0, depth - 1);
+    if (depth === 0 && /[,;/，；]/.test(char)) {
+      meanings.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  });
+  meanings.push(current);
+  return meanings;
+}
+
+// Every meaning listed in a Vietnamese/English field, with and without its parenthesized note
+export function meaningVariants(text: string): string[] {
+  const variants = new Set<string>();
+  splitMeanings(text).forEach(meaning => {
+    expandOptional(meaning).forEach(variant => {
+      // "(xe; máy)" kept inline reads as "xe máy"
+      const cleaned = variant.replace(/[,;/，；]/g, ' ').trim().split(/\s+/).join(' ');
+      if (cleaned) variants.add(cleaned);
+    });
+  });
+  return Array.from(variants).slice(0, MAX_VARIANTS);
+}
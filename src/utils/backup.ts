@@ -0,0 +1,21 @@
+import { exportLibrary, parseLibraryBackup, restoreLibrary, type RestoreMode } from './storage';
+
+// "Sao lưu / Khôi phục": the whole library (both languages) as one JSON file
+
+export async function downloadBackup() {
+  const backup = await exportLibrary();
+  const d = new Date(backup.exportedAt);
+  const date = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+  const blob = new Blob([JSON.stringify(backup)], { type: 'application/json;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `korean-study-backup-${date}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export async function restoreBackupFile(file: File, mode: RestoreMode) {
+  const backup = parseLibraryBackup(await file.text());
+  await restoreLibrary(backup, mode);
+}
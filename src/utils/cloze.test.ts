@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import type { StudyItem } from '../types';
+import { buildCloze } from './cloze';
+
+function item(korean: string): StudyItem {
+  return { id: korean, korean, vietnamese: '', english: '' };
+}
+
+// The blanked text of a question, or null when the item was not found in the example
+function blank(korean: string, example: string, grammar = false): string | null {
+  return buildCloze(item(korean), example, '', '', grammar)?.answer ?? null;
+}
+
+describe('buildCloze', () => {
+  it('blanks a noun but leaves its particle visible', () => {
+    const question = buildCloze(item('동료'), '그는 제 동료입니다.', 'vi', 'en', false);
+    expect(question).toMatchObject({ before: '그는 제 ', answer: '동료', after: '입니다.', hintVi: 'vi', hintEn: 'en' });
+  });
+
+  it('finds a verb in its conjugated form', () => {
+    expect(blank('가르치다', '한국어를 가르쳐요.')).toBe('가르쳐요');
+    expect(blank('드리다', '선물을 드렸습니다.')).toBe('드렸습니다');
+  });
+
+  it('blanks a particle where it closes a word', () => {
+    const question = buildCloze(item('은/는'), '저는 학생이에요.', '', '', true);
+    expect(question).toMatchObject({ before: '저', answer: '는', after: ' 학생이에요.' });
+  });
+
+  it('finds a pattern that starts with a batchim', () => {
+    expect(blank('(으)ㄹ 때', '학교에 갈 때 전화하세요.', true)).toBe('갈 때');
+    expect(blank('ㅂ니다', '학교에 갑니다.', true)).toBe('갑니다');
+  });
+
+  it('ignores the romanization of the item', () => {
+    expect(blank('동료 (dong-ryo)', '제 동료예요.')).toBe('동료');
+  });
+
+  it('gives up when the item is not in the example', () => {
+    expect(blank('사과', '배를 먹어요.')).toBeNull();
+    expect(blank('사과', '')).toBeNull();
+  });
+});
@@ -0,0 +1,128 @@
+import type { StudyItem } from '../types';
+import { answerVariants } from './answers';
+import { decomposeSyllable, isHangulSyllable } from './hangul';
+import { shuffle } from './deck';
+
+// Cloze: blank the item's word or grammar pattern inside one of its example sentences
+
+export type ClozeQuestion = {
+  item: StudyItem;
+  before: string;
+  answer: string; // the text as it appears in the example, e.g. the conjugated verb
+  after: string;
+  hintVi: string;
+  hintEn: string;
+};
+
+type Span = { start: number; end: number };
+
+const WORD_BREAK = /[\s.,!?;:"'“”‘’()[\]]/;
+
+function isWordBreak(char: string | undefined): boolean {
+  return char === undefined || WORD_BREAK.test(char);
+}
+
+// End of the word (eojeol) containing the character before index, so endings and particles come along
+function wordEnd(text: string, index: number): number {
+  let end = index;
+  while (end < text.length && !isWordBreak(text[end])) end++;
+  return end;
+}
+
+function occurrences(text: string, needle: string): number[] {
+  const found: number[] = [];
+  if (!needle) return found;
+  for (let i = text.indexOf(needle); i >= 0; i = text.indexOf(needle, i + 1)) found.push(i);
+  return found;
+}
+
+function initialOf(char: string): string | undefined {
+  return decomposeSyllable(char)?.initial;
+}
+
+// 가르치다 -> 가르쳐요, 드리다 -> 드렸습니다: the stem's last syllable often changes its vowel,
+// so only its initial consonant has to match. A word must start there unless it is a grammar
+// pattern, which is attached to the verb before it (가려고 해요).
+function findConjugated(text: string, stem: string, attached: boolean): Span | null {
+  const startsWord = (i: number) => attached || isWordBreak(text[i - 1]);
+  const exact = occurrences(text, stem).find(startsWord);
+  if (exact !== undefined) return { start: exact, end: wordEnd(text, exact + stem.length) };
+  const chars = Array.from(stem);
+  const last = chars.pop();
+  if (!last || !isHangulSyllable(last)) return null;
+  const prefix = chars.join('');
+  const starts = prefix ? occurrences(text, prefix) : text.split('').map((_, i) => i);
+  for (const i of starts) {
+    const at = i + prefix.length;
+    // An initial consonant alone is too loose inside a word, so a one-syllable stem must start one
+    const allowed = prefix ? startsWord(i) : isWordBreak(text[i - 1]);
+    if (!allowed || !isHangulSyllable(text[at] ?? '')) continue;
+    if (initialOf(text[at]) === initialOf(last)) return { start: i, end: wordEnd(text, at + 1) };
+  }
+  return null;
+}
+
+// "ㄹ 때", "ㅂ니다": the leading consonant is the previous syllable's batchim (갈 때, 갑니다)
+function findBatchimPattern(text: string, pattern: string): Span | null {
+  const [jamo, ...rest] = Array.from(pattern);
+  const tail = rest.join('');
+  for (let i = 0; i < text.length; i++) {
+    if (decomposeSyllable(text[i])?.final !== jamo) continue;
+    if (!text.startsWith(tail, i + 1)) continue;
+    return { start: i, end: wordEnd(text, i + 1 + tail.length) };
+  }
+  return null;
+}
+
+function locate(text: string, variant: string, grammar: boolean): Span | null {
+  const found = occurrences(text, variant);
+  if (grammar) {
+    // Particles and endings: prefer the occurrence that closes a word (저는, 학생입니다)
+    const closing = found.find(i => isWordBreak(text[i + variant.length]));
+    const start = closing ?? found[0];
+    if (start !== undefined) return { start, end: wordEnd(text, start + variant.length) };
+  } else {
+    // A noun keeps its particle visible (동료입니다 -> ___입니다)
+    const start = found.find(i => isWordBreak(text[i - 1])) ?? found[0];
+    if (start !== undefined) return { start, end: start + variant.length };
+  }
+  if (/^[ㄱ-ㅎ]/.test(variant)) return findBatchimPattern(text, variant);
+  if (variant.length > 1 && variant.endsWith('다')) return findConjugated(text, variant.slice(0, -1), grammar);
+  return null;
+}
+
+export function buildCloze(item: StudyItem, example: string, hintVi: string, hintEn: string, grammar: boolean): ClozeQuestion | null {
+  const text = example.trim();
+  if (!text) return null;
+  // Longer forms first so "이/가 아닙니다" is not reduced to a lone 이
+  const variants = answerVariants(item.korean)
+    .filter(variant => !variant.includes('/') && !/[()（）]/.test(variant))
+    .sort((a, b) => b.length - a.length);
+  for (const variant of variants) {
+    const span = locate(text, variant, grammar);
+    if (span && span.end > span.start) {
+      return {
+        item,
+        before: text.slice(0, span.start),
+        answer: text.slice(span.start, span.end),
+        after: text.slice(span.end),
+        hintVi,
+        hintEn
+      };
+    }
+  }
+  return null;
+}
+
+// One question per item, from whichever example the pattern could be found in
+export function buildClozeDeck(items: StudyItem[], grammar: boolean): ClozeQuestion[] {
+  const questions: ClozeQuestion[] = [];
+  shuffle(items).forEach(item => {
+    const candidates = [
+      buildCloze(item, item.example1_ko ?? '', item.example1_vi ?? '', item.example1_en ?? '', grammar),
+      buildCloze(item, item.example2_ko ?? '', item.example2_vi ?? '', item.example2_en ?? '', grammar)
+    ].filter((q): q is ClozeQuestion => q !== null);
+    if (candidates.length > 0) questions.push(candidates[Math.floor(Math.random() * candidates.length)]);
+  });
+  return questions;
+}
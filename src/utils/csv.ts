@@ -1,6 +1,8 @@
 import Papa, { type ParseResult } from 'papaparse';
 import type { StudyItem, NoteItem, SentenceItem } from '../types';
 import type { StudyLanguage } from './language';
+import { splitReading } from './answers';
+import { extractRomanization } from './romanize';
 
 export function parseCSV(file: File, language: StudyLanguage = 'ko'): Promise<StudyItem[]> {
   return new Promise((resolve, reject) => {
@@ -13,19 +15,22 @@ export function parseCSV(file: File, language: StudyLanguage = 'ko'): Promise<St
           language === 'ja'
             ? (row.japanese || row.Japanese || row.jp || row.JP || '')
             : (row.korean || row.Korean || '');
-        const items: StudyItem[] = rows.map((row, index) => ({
-          id: row.id || `${Date.now()}-${index}`,
-          korean: targetText(row),
-          vietnamese: row.vietnamese || row.Vietnamese || row.Viet || '',
-          english: row.english || row.English || '',
-          description: row.description || row.Description || '',
-          example1_ko: row.example1_ko || row.example1KO || row.example1Ko || row.Example1_ko || '',
-          example1_vi: row.example1_vi || row.Example1_vi || '',
-          example1_en: row.example1_en || row.Example1_en || '',
-          example2_ko: row.example2_ko || row.example2KO || row.example2Ko || row.Example2_ko || '',
-          example2_vi: row.example2_vi || row.Example2_vi || '',
-          example2_en: row.example2_en || row.Example2_en || ''
-        })).filter(i => i.korean || i.vietnamese || i.english);
+        const items: StudyItem[] = rows.map((row, index) => {
+          const item: StudyItem = {
+            id: row.id || `${Date.now()}-${index}`,
+            korean: targetText(row),
+            vietnamese: row.vietnamese || row.Vietnamese || row.Viet || '',
+            english: row.english || row.English || '',
+            description: row.description || row.Description || '',
+            example1_ko: row.example1_ko || row.example1KO || row.example1Ko || row.Example1_ko || '',
+            example1_vi: row.example1_vi || row.Example1_vi || '',
+            example1_en: row.example1_en || row.Example1_en || '',
+            example2_ko: row.example2_ko || row.example2KO || row.example2Ko || row.Example2_ko || '',
+            example2_vi: row.example2_vi || row.Example2_vi || '',
+            example2_en: row.example2_en || row.Example2_en || ''
+          };
+          return language === 'ja' ? withReading(item, row) : withRomanization(item, row);
+        }).filter(i => i.korean || i.vietnamese || i.english);
         resolve(items);
       },
       error: (error: unknown) => reject(error)
@@ -33,12 +38,28 @@ export function parseCSV(file: File, language: StudyLanguage = 'ko'): Promise<St
   });
 }
 
+// Japanese rows may carry the kana reading in its own column or as "食べる（たべる）" in the word itself
+function withReading(item: StudyItem, row: Record<string, string>): StudyItem {
+  const reading = row.reading || row.Reading || row.furigana || row.Furigana || row.kana || '';
+  if (reading) return { ...item, reading };
+  const split = splitReading(item.korean);
+  return split ? { ...item, korean: split.written, reading: split.reading } : { ...item, reading: '' };
+}
+
+// Korean rows may carry romanization in its own column or typed after the word, "동료 (dong-ryo)";
+// either way it is moved out of the word into its own field
+function withRomanization(item: StudyItem, row: Record<string, string>): StudyItem {
+  const { korean, romanization } = extractRomanization(item.korean);
+  return { ...item, korean, romanization: row.romanization || row.Romanization || row.romaja || romanization };
+}
+
 export function exportToCSV(items: StudyItem[], filename = 'export.csv', language: StudyLanguage = 'ko') {
   // Ensure header has no quotes; quote all data fields (including id)
   const targetColumn = language === 'ja' ? 'japanese' : 'korean';
   const fields = [
     'id',
     targetColumn,
+    language === 'ja' ? 'reading' : 'romanization',
     'vietnamese',
     'english',
     'description',
@@ -116,84 +137,6 @@ export function exportNotesToCSV(items: NoteItem[], filename = 'notes.csv') {
   URL.revokeObjectURL(url);
 }
 
-// Utility function to clear flashcard storage for a category
-export function clearFlashcardStorage(category: string) {
-  const storageKey = `korean-study:flashcards:${category}`;
-  localStorage.removeItem(storageKey);
-}
-
-// Utility function to clear check storage for a category
-export function clearCheckStorage(category: string) {
-  const storageKey = `korean-study:check:${category}`;
-  localStorage.removeItem(storageKey);
-  // Also clear wrong-only check storage
-  const wrongCheckKey = `korean-study:check-wrong:${category}`;
-  localStorage.removeItem(wrongCheckKey);
-  // Clear wrong-only mode flag
-  const wrongOnlyFlagKey = `korean-study:check-wrong-only:${category}`;
-  localStorage.removeItem(wrongOnlyFlagKey);
-}
-
-// Utility function to clear wrong items storage for a category
-export function clearWrongItemsStorage(category: string) {
-  const wrongKey = `korean-study:wrong:${category}`;
-  localStorage.removeItem(wrongKey);
-}
-
-// Utility function to load wrong IDs with 8-hour expiration check
-export function loadWrongIds(category: string, cardId?: string): Set<string> {
-  const wrongKey = category.startsWith('sentences')
-    ? `korean-study:wrong:sentences${cardId ? `:${cardId}` : ''}`
-    : `korean-study:wrong:${cardId ? `${category}:${cardId}` : category}`;
-  try {
-    const wrongRaw = localStorage.getItem(wrongKey);
-    if (!wrongRaw) return new Set();
-    
-    // Try to parse as new format with timestamp
-    try {
-      const parsed = JSON.parse(wrongRaw) as { ids: string[]; savedAt: number } | string[];
-      
-      // Check if it's the new format (object with savedAt)
-      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed) && 'savedAt' in parsed) {
-        const EIGHT_HOURS_MS = 8 * 60 * 60 * 1000;
-        if (!parsed.savedAt || Date.now() - parsed.savedAt > EIGHT_HOURS_MS) {
-          localStorage.removeItem(wrongKey);
-          return new Set();
-        }
-        return new Set(parsed.ids);
-      }
-      
-      // Old format (just array) - migrate to new format
-      if (Array.isArray(parsed)) {
-        const migrated = { ids: parsed, savedAt: Date.now() };
-        localStorage.setItem(wrongKey, JSON.stringify(migrated));
-        return new Set(parsed);
-      }
-    } catch {
-      // If parsing fails, try as old format
-      const parsed = JSON.parse(wrongRaw) as string[];
-      if (Array.isArray(parsed)) {
-        const migrated = { ids: parsed, savedAt: Date.now() };
-        localStorage.setItem(wrongKey, JSON.stringify(migrated));
-        return new Set(parsed);
-      }
-    }
-    
-    return new Set();
-  } catch {
-    return new Set();
-  }
-}
-
-// Utility function to save wrong IDs with timestamp
-export function saveWrongIds(category: string, ids: Set<string>, cardId?: string) {
-  const wrongKey = category.startsWith('sentences')
-    ? `korean-study:wrong:sentences${cardId ? `:${cardId}` : ''}`
-    : `korean-study:wrong:${cardId ? `${category}:${cardId}` : category}`;
-  const data = { ids: Array.from(ids), savedAt: Date.now() };
-  localStorage.setItem(wrongKey, JSON.stringify(data));
-}
-
 // Utility function to check if two arrays of items are different
 export function areItemsDifferent<T extends { id: string }>(current: T[], imported: T[]): boolean {
   // If lengths are different, they're different
@@ -0,0 +1,82 @@
+// Minimal promise wrapper around IndexedDB, used only by storage.ts
+//
+// kv:    small values (cards, progress, flags, settings) keyed by their full storage key
+// items: one record per card item, keyed by [scope, id] so a card's items form one key range
+
+const DB_NAME = 'korean-study';
+const DB_VERSION = 1;
+
+export const KV_STORE = 'kv';
+export const ITEMS_STORE = 'items';
+
+export type ItemRecord<T = unknown> = {
+  scope: string;
+  id: string;
+  position: number; // keeps the order items were added/imported in
+  data: T;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(KV_STORE)) {
+          db.createObjectStore(KV_STORE);
+        }
+        if (!db.objectStoreNames.contains(ITEMS_STORE)) {
+          db.createObjectStore(ITEMS_STORE, { keyPath: ['scope', 'id'] });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+}
+
+// Every [scope, id] key of one card; arrays sort after strings so [scope, []] is past the last id
+export function scopeRange(scope: string): IDBKeyRange {
+  return IDBKeyRange.bound([scope], [scope, []]);
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Run work inside a transaction and resolve once everything it queued is committed
+export async function withTransaction<T>(
+  storeNames: string | string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => T | Promise<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const tx = db.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+  // Aborting below rejects done as well; the error from work is the one reported
+  done.catch(() => {});
+  let result: T;
+  try {
+    result = await work(tx);
+  } catch (error) {
+    // Roll back what work already queued, so a failed restore does not leave half a library
+    try {
+      tx.abort();
+    } catch {
+      // Already finished or aborted by a failed request
+    }
+    throw error;
+  }
+  await done;
+  return result;
+}
@@ -0,0 +1,14 @@
+// Deck helpers shared by the check and flashcard views
+
+export function shuffle<T>(items: T[]): T[] {
+  return [...items].sort(() => Math.random() - 0.5);
+}
+
+// Keep the current order when the items are reloaded (e.g. synced from another tab):
+// known items stay where they are with their fresh content, new ones are shuffled in at the end
+export function reconcileDeck<T extends { id: string }>(current: T[], items: T[]): T[] {
+  const fresh = new Map(items.map(item => [item.id, item]));
+  const kept = current.filter(item => fresh.has(item.id)).map(item => fresh.get(item.id)!);
+  const keptIds = new Set(kept.map(item => item.id));
+  return [...kept, ...shuffle(items.filter(item => !keptIds.has(item.id)))];
+}
@@ -0,0 +1,40 @@
+import type { StudyItem } from '../types';
+import type { AnswerDirection, CheckDirection, ProgressMode } from './storage';
+
+// Check directions: which side of a vocab/grammar item is shown and which one is typed
+
+export type { AnswerDirection, CheckDirection };
+
+export const ANSWER_DIRECTIONS: AnswerDirection[] = ['to-target', 'to-vietnamese', 'to-english'];
+
+export function directionLabel(direction: CheckDirection, targetLanguageLabel: string): string {
+  switch (direction) {
+    case 'to-target': return `Việt/Anh → ${targetLanguageLabel}`;
+    case 'to-vietnamese': return `${targetLanguageLabel} → Việt`;
+    case 'to-english': return `${targetLanguageLabel} → Anh`;
+    case 'mixed': return 'Trộn';
+  }
+}
+
+// Each direction keeps its own schedule so knowing a word one way does not hide the other
+export function progressModeFor(direction: AnswerDirection, wrongOnly: boolean): ProgressMode {
+  switch (direction) {
+    case 'to-target': return wrongOnly ? 'check-wrong' : 'check';
+    case 'to-vietnamese': return wrongOnly ? 'check-wrong-vi' : 'check-vi';
+    case 'to-english': return wrongOnly ? 'check-wrong-en' : 'check-en';
+  }
+}
+
+export function answerOf(item: StudyItem, direction: AnswerDirection): string {
+  switch (direction) {
+    case 'to-target': return item.korean;
+    case 'to-vietnamese': return item.vietnamese;
+    case 'to-english': return item.english;
+  }
+}
+
+// A reverse question needs the target text to show and the meaning to type
+export function canAsk(item: StudyItem, direction: AnswerDirection): boolean {
+  if (direction === 'to-target') return !!(item.korean || item.vietnamese || item.english);
+  return !!item.korean && !!answerOf(item, direction).trim();
+}
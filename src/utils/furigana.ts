@@ -0,0 +1,33 @@
+import { toHiragana } from './kana';
+
+// Furigana: the kana reading split over the kanji it belongs to, so okurigana stays unannotated
+
+export type RubySegment = {
+  text: string;
+  ruby?: string; // reading shown above the text; absent for kana and punctuation
+};
+
+const HAN_RUN = /(\p{Script=Han}+)/u;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// 食べる + たべる -> 食(た) べる; 日本語 + にほんご -> 日本語(にほんご). When the kana around the kanji
+// do not line up with the reading, the whole word gets the reading as one annotation
+export function rubySegments(text: string, reading: string | undefined): RubySegment[] {
+  const word = text.trim();
+  const kana = (reading ?? '').trim();
+  if (!kana || !HAN_RUN.test(word)) return [{ text: word }];
+
+  // split() with a capture group alternates the text around kanji and the kanji runs
+  const parts = word.split(HAN_RUN);
+  const pattern = parts.map((part, i) => (i % 2 === 1 ? '(.+?)' : escapeRegExp(toHiragana(part)))).join('');
+  const match = toHiragana(kana).match(new RegExp(`^${pattern}$`, 'u'));
+  if (!match) return [{ text: word, ruby: kana }];
+
+  let group = 1;
+  return parts
+    .map((part, i) => (i % 2 === 1 ? { text: part, ruby: match[group++] } : { text: part }))
+    .filter(segment => segment.text);
+}
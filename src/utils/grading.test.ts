@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from 'vitest';
+import { gradeAgainstVariants, gradeAnswer, gradeMeaning, normalizeAnswer } from './grading';
+
+vi.mock('./storage', () => ({ gradingRepository: {} }));
+
+describe('normalizeAnswer', () => {
+  it('composes compatibility jamo into syllables', () => {
+    expect(normalizeAnswer('ㅇㅏㄴㄴㅕㅇ')).toBe('안녕');
+    expect(normalizeAnswer('ㄷㅏㄹㄱㅇㅣ')).toBe('닭이');
+  });
+
+  it('composes conjoining jamo', () => {
+    expect(normalizeAnswer('\u1112\u1161\u11ab')).toBe('한');
+  });
+
+  it('keeps a lone jamo of a grammar pattern', () => {
+    expect(normalizeAnswer('ㄹ  때 ')).toBe('ㄹ 때');
+  });
+
+  it('lowercases and collapses spaces', () => {
+    expect(normalizeAnswer('  To   Go ')).toBe('to go');
+  });
+});
+
+describe('gradeAnswer', () => {
+  it('accepts an exact answer typed as loose jamo', () => {
+    expect(gradeAnswer('ㅎㅏㄴㄱㅜㄱㅇㅓ', '한국어', 1).verdict).toBe('correct');
+  });
+
+  it('accepts one missing batchim in a longer word', () => {
+    const result = gradeAnswer('하국어', '한국어', 1);
+    expect(result.verdict).toBe('accepted');
+    expect(result.distance).toBe(1);
+  });
+
+  it('keeps short words strict', () => {
+    expect(gradeAnswer('가', '각', 1).verdict).not.toBe('accepted');
+  });
+
+  it('marks an unrelated answer wrong', () => {
+    expect(gradeAnswer('사과', '한국어', 1).verdict).toBe('wrong');
+  });
+});
+
+describe('gradeAgainstVariants', () => {
+  it('accepts either form of a particle pair', () => {
+    expect(gradeAgainstVariants('는', '은/는', 0).verdict).toBe('correct');
+  });
+
+  it('accepts the kana reading of a Japanese item', () => {
+    expect(gradeAgainstVariants('たべる', '食べる', 0, 'たべる').verdict).toBe('correct');
+  });
+});
+
+describe('gradeMeaning', () => {
+  it('accepts any one of the listed meanings', () => {
+    expect(gradeMeaning('đồng nghiệp', 'bạn, đồng nghiệp', 'vi', 0).correct).toBe(true);
+  });
+
+  it('accepts a Vietnamese meaning without tone marks', () => {
+    expect(gradeMeaning('dong nghiep', 'đồng nghiệp', 'vi', 0).verdict).toBe('accepted');
+  });
+
+  it('makes the English particle optional', () => {
+    expect(gradeMeaning('go', 'to go', 'en', 0).verdict).toBe('correct');
+  });
+});
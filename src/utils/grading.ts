@@ -0,0 +1,145 @@
+import { toJamo, type JamoUnit } from './hangul';
+import { answerVariants, meaningVariants } from './answers';
+import { typeJamo } from './hangulInput';
+import { gradingRepository, type GradingSettings } from './storage';
+
+// Typed answers are compared jamo by jamo, so a missing batchim is one mistake, not a wrong word
+
+export type { GradingSettings };
+
+// correct: exact match, accepted: near-miss within the tolerance (still counts as correct),
+// almost: close but over the tolerance, wrong: anything further away
+export type GradeVerdict = 'correct' | 'accepted' | 'almost' | 'wrong';
+
+export type JamoDiffOp =
+  | { op: 'equal'; expected: JamoUnit; actual: JamoUnit }
+  | { op: 'replace'; expected: JamoUnit; actual: JamoUnit }
+  | { op: 'missing'; expected: JamoUnit }
+  | { op: 'extra'; actual: JamoUnit };
+
+export type GradeResult = {
+  verdict: GradeVerdict;
+  correct: boolean;
+  distance: number; // jamo edits between the answer and the expected text
+  diff: JamoDiffOp[];
+  expected: string; // the accepted form the answer was compared with
+};
+
+const DEFAULT_SETTINGS: GradingSettings = { tolerance: 1 };
+export const MAX_TOLERANCE = 3;
+
+export function loadGradingSettings(): GradingSettings {
+  return gradingRepository.loadSettings(DEFAULT_SETTINGS);
+}
+
+export function saveGradingSettings(settings: GradingSettings) {
+  gradingRepository.saveSettings(settings);
+}
+
+// NFC composes conjoining jamo (U+1100...) but not the compatibility jamo (ㄱ, ㅏ) some IMEs leave
+// behind, so those are composed as if typed one by one: "ㅇㅏㄴㄴㅕㅇ" compares equal to 안녕
+export function normalizeAnswer(text: string): string {
+  const composed = Array.from(text.normalize('NFC')).reduce(
+    (result, char) => (/[ㄱ-ㅣ]/.test(char) ? typeJamo(result, char) : result + char),
+    ''
+  );
+  return composed.toLowerCase().trim().split(/\s+/).join(' ');
+}
+
+// Levenshtein over jamo with a backtrace; ties prefer a substitution so a wrong
+// consonant shows up as "ㄴ → ㅁ" instead of a missing and an extra jamo
+export function diffJamo(expected: JamoUnit[], actual: JamoUnit[]): JamoDiffOp[] {
+  const rows = expected.length + 1;
+  const cols = actual.length + 1;
+  const dist: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = expected[i - 1].jamo === actual[j - 1].jamo ? 0 : 1;
+      dist[i][j] = Math.min(dist[i - 1][j - 1] + cost, dist[i - 1][j] + 1, dist[i][j - 1] + 1);
+    }
+  }
+
+  const ops: JamoDiffOp[] = [];
+  let i = expected.length;
+  let j = actual.length;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0) {
+      const same = expected[i - 1].jamo === actual[j - 1].jamo;
+      if (dist[i][j] === dist[i - 1][j - 1] + (same ? 0 : 1)) {
+        ops.push({ op: same ? 'equal' : 'replace', expected: expected[i - 1], actual: actual[j - 1] });
+        i--;
+        j--;
+        continue;
+      }
+    }
+    if (i > 0 && dist[i][j] === dist[i - 1][j] + 1) {
+      ops.push({ op: 'missing', expected: expected[i - 1] });
+      i--;
+    } else {
+      ops.push({ op: 'extra', actual: actual[j - 1] });
+      j--;
+    }
+  }
+  return ops.reverse();
+}
+
+export function gradeAnswer(answer: string, expected: string, tolerance: number): GradeResult {
+  const expectedJamo = toJamo(normalizeAnswer(expected));
+  const diff = diffJamo(expectedJamo, toJamo(normalizeAnswer(answer)));
+  const distance = diff.filter(d => d.op !== 'equal').length;
+  const length = Math.max(1, expectedJamo.length);
+
+  let verdict: GradeVerdict;
+  if (distance === 0) {
+    verdict = 'correct';
+  } else if (distance <= tolerance && distance * 4 <= length) {
+    // The length cap keeps short words strict: one edit turns 가 into a different word
+    verdict = 'accepted';
+  } else if (distance <= Math.max(tolerance + 1, Math.ceil(length / 3))) {
+    verdict = 'almost';
+  } else {
+    verdict = 'wrong';
+  }
+  return { verdict, correct: verdict === 'correct' || verdict === 'accepted', distance, diff, expected };
+}
+
+const VERDICT_RANK: Record<GradeVerdict, number> = { correct: 0, accepted: 1, almost: 2, wrong: 3 };
+
+function closest(results: GradeResult[]): GradeResult {
+  return results.reduce((best, result) =>
+    VERDICT_RANK[result.verdict] < VERDICT_RANK[best.verdict] ||
+    (result.verdict === best.verdict && result.distance < best.distance) ? result : best
+  );
+}
+
+// Grade against every accepted form of the stored answer and keep the closest one;
+// a Japanese item's kana reading is accepted as well as its kanji
+export function gradeAgainstVariants(answer: string, stored: string, tolerance: number, reading?: string): GradeResult {
+  const variants = reading?.trim() ? [...answerVariants(stored), ...answerVariants(reading)] : answerVariants(stored);
+  return closest(variants.map(variant => gradeAnswer(answer, variant, tolerance)));
+}
+
+function stripTones(text: string): string {
+  return normalizeAnswer(text).normalize('NFD').replace(/\p{M}/gu, '').replace(/đ/g, 'd');
+}
+
+// "to go", "a book": the leading particle is optional when typing an English meaning
+function stripEnglishParticle(text: string): string {
+  return text.replace(/^\s*(?:to|an?|the)\s+/i, '');
+}
+
+// Reverse check: the answer may match any one of the listed meanings; a Vietnamese answer
+// typed without tone marks is accepted but still shown as a near-miss
+export function gradeMeaning(answer: string, stored: string, language: 'vi' | 'en', tolerance: number): GradeResult {
+  const typed = language === 'en' ? stripEnglishParticle(answer) : answer;
+  return closest(meaningVariants(stored).map(meaning => {
+    const expected = language === 'en' ? stripEnglishParticle(meaning) : meaning;
+    const result = gradeAnswer(typed, expected, tolerance);
+    if (!result.correct && language === 'vi' && stripTones(typed) === stripTones(expected)) {
+      return { ...result, verdict: 'accepted', correct: true };
+    }
+    return result;
+  }));
+}
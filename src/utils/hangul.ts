@@ -0,0 +1,86 @@
+// Hangul syllable <-> jamo helpers (compatibility jamo, the ones a keyboard types)
+
+const SYLLABLE_BASE = 0xac00;
+const SYLLABLE_LAST = 0xd7a3;
+const MEDIAL_COUNT = 21;
+const FINAL_COUNT = 28;
+
+export const INITIALS = ['ㄱ', 'ㄲ', 'ㄴ', 'ㄷ', 'ㄸ', 'ㄹ', 'ㅁ', 'ㅂ', 'ㅃ', 'ㅅ', 'ㅆ', 'ㅇ', 'ㅈ', 'ㅉ', 'ㅊ', 'ㅋ', 'ㅌ', 'ㅍ', 'ㅎ'];
+export const MEDIALS = ['ㅏ', 'ㅐ', 'ㅑ', 'ㅒ', 'ㅓ', 'ㅔ', 'ㅕ', 'ㅖ', 'ㅗ', 'ㅘ', 'ㅙ', 'ㅚ', 'ㅛ', 'ㅜ', 'ㅝ', 'ㅞ', 'ㅟ', 'ㅠ', 'ㅡ', 'ㅢ', 'ㅣ'];
+// Index 0 is "no final consonant"
+export const FINALS = ['', 'ㄱ', 'ㄲ', 'ㄳ', 'ㄴ', 'ㄵ', 'ㄶ', 'ㄷ', 'ㄹ', 'ㄺ', 'ㄻ', 'ㄼ', 'ㄽ', 'ㄾ', 'ㄿ', 'ㅀ', 'ㅁ', 'ㅂ', 'ㅄ', 'ㅅ', 'ㅆ', 'ㅇ', 'ㅈ', 'ㅊ', 'ㅋ', 'ㅌ', 'ㅍ', 'ㅎ'];
+
+// Compound vowels and final clusters are typed as two keys, so they count as two jamo
+const COMPOUNDS: Record<string, string[]> = {
+  'ㅘ': ['ㅗ', 'ㅏ'], 'ㅙ': ['ㅗ', 'ㅐ'], 'ㅚ': ['ㅗ', 'ㅣ'], 'ㅝ': ['ㅜ', 'ㅓ'], 'ㅞ': ['ㅜ', 'ㅔ'], 'ㅟ': ['ㅜ', 'ㅣ'], 'ㅢ': ['ㅡ', 'ㅣ'],
+  'ㄳ': ['ㄱ', 'ㅅ'], 'ㄵ': ['ㄴ', 'ㅈ'], 'ㄶ': ['ㄴ', 'ㅎ'], 'ㄺ': ['ㄹ', 'ㄱ'], 'ㄻ': ['ㄹ', 'ㅁ'], 'ㄼ': ['ㄹ', 'ㅂ'],
+  'ㄽ': ['ㄹ', 'ㅅ'], 'ㄾ': ['ㄹ', 'ㅌ'], 'ㄿ': ['ㄹ', 'ㅍ'], 'ㅀ': ['ㄹ', 'ㅎ'], 'ㅄ': ['ㅂ', 'ㅅ']
+};
+
+export type JamoRole = 'initial' | 'medial' | 'final' | 'space' | 'other';
+
+export type JamoUnit = {
+  jamo: string;
+  role: JamoRole;
+  syllable: string; // the character this jamo came from
+  position: number; // index of that character in the text
+};
+
+export type SyllableParts = {
+  initial: string;
+  medial: string;
+  final: string; // '' when the syllable has no batchim
+};
+
+export function isHangulSyllable(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code >= SYLLABLE_BASE && code <= SYLLABLE_LAST;
+}
+
+// Inverse of decomposeSyllable; null when the parts cannot form a syllable (e.g. ㄸ as a final)
+export function composeSyllable({ initial, medial, final }: SyllableParts): string | null {
+  const i = INITIALS.indexOf(initial);
+  const m = MEDIALS.indexOf(medial);
+  const f = FINALS.indexOf(final);
+  if (i < 0 || m < 0 || f < 0) return null;
+  return String.fromCharCode(SYLLABLE_BASE + (i * MEDIAL_COUNT + m) * FINAL_COUNT + f);
+}
+
+// ㅗ + ㅏ -> ㅘ, ㄹ + ㄱ -> ㄺ; undefined when the two do not combine
+export function combineJamo(first: string, second: string): string | undefined {
+  return Object.keys(COMPOUNDS).find(compound => COMPOUNDS[compound][0] === first && COMPOUNDS[compound][1] === second);
+}
+
+// ㄺ -> [ㄹ, ㄱ]; simple jamo come back alone
+export function splitJamo(jamo: string): string[] {
+  return COMPOUNDS[jamo] ?? [jamo];
+}
+
+export function decomposeSyllable(char: string): SyllableParts | null {
+  if (!isHangulSyllable(char)) return null;
+  const offset = char.charCodeAt(0) - SYLLABLE_BASE;
+  return {
+    initial: INITIALS[Math.floor(offset / (MEDIAL_COUNT * FINAL_COUNT))],
+    medial: MEDIALS[Math.floor(offset / FINAL_COUNT) % MEDIAL_COUNT],
+    final: FINALS[offset % FINAL_COUNT]
+  };
+}
+
+// Text as the sequence of jamo keystrokes; non-Hangul characters are kept as single units
+export function toJamo(text: string): JamoUnit[] {
+  const units: JamoUnit[] = [];
+  Array.from(text).forEach((char, position) => {
+    const parts = decomposeSyllable(char);
+    if (!parts) {
+      units.push({ jamo: char, role: /\s/.test(char) ? 'space' : 'other', syllable: char, position });
+      return;
+    }
+    const push = (jamo: string, role: JamoRole) => {
+      (COMPOUNDS[jamo] ?? [jamo]).forEach(part => units.push({ jamo: part, role, syllable: char, position }));
+    };
+    push(parts.initial, 'initial');
+    push(parts.medial, 'medial');
+    if (parts.final) push(parts.final, 'final');
+  });
+  return units;
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { deleteJamo, jamoForKey, typeJamo } from './hangulInput';
+
+// Types QWERTY keys the way the keyboard does while it is on
+function typeKeys(keys: string): string {
+  return Array.from(keys).reduce((text, key) => typeJamo(text, jamoForKey(key) ?? key), '');
+}
+
+describe('jamoForKey', () => {
+  it('maps the 2-beolsik layout, with Shift for the doubled consonants', () => {
+    expect(jamoForKey('r')).toBe('ㄱ');
+    expect(jamoForKey('k')).toBe('ㅏ');
+    expect(jamoForKey('R')).toBe('ㄲ');
+    expect(jamoForKey('O')).toBe('ㅒ');
+    expect(jamoForKey('1')).toBeUndefined();
+  });
+});
+
+describe('typeJamo', () => {
+  it.each([
+    ['dkssudgktpdy', '안녕하세요'],
+    ['ekfrdl', '닭이'],
+    ['dkdl', '아이'],
+    ['dhk', '와'],
+    ['ehowl', '돼지'],
+    ['rhksrhk', '관과'],
+    ['dlfgrhk', '잃과'],
+    ['Qkfkd', '빠랑'],
+    ['Ekfk', '따라'],
+    ['wkfgkek', '잘하다']
+  ])('%s types %s', (keys, expected) => {
+    expect(typeKeys(keys)).toBe(expected);
+  });
+
+  it('moves the batchim to a following vowel', () => {
+    expect(typeJamo('각', 'ㅏ')).toBe('가가');
+    expect(typeJamo('닭', 'ㅣ')).toBe('달기');
+    // and leaves the shared jamo tables as they were
+    expect(typeJamo('닭', 'ㅣ')).toBe('달기');
+  });
+
+  it('starts a new syllable with a consonant that cannot be a batchim', () => {
+    expect(typeJamo('가', 'ㄸ')).toBe('가ㄸ');
+  });
+});
+
+describe('deleteJamo', () => {
+  it('removes one jamo at a time', () => {
+    const steps = ['닭'];
+    while (steps[steps.length - 1]) steps.push(deleteJamo(steps[steps.length - 1]));
+    expect(steps).toEqual(['닭', '달', '다', 'ㄷ', '']);
+  });
+
+  it('splits a combined vowel', () => {
+    expect(deleteJamo('왜')).toBe('오');
+  });
+});
@@ -0,0 +1,86 @@
+import { INITIALS, MEDIALS, FINALS, combineJamo, composeSyllable, decomposeSyllable, splitJamo, type SyllableParts } from './hangul';
+
+// Typing Hangul without an IME: jamo from the 2-beolsik (standard) layout are composed into
+// the end of the text, the same way a Korean IME composes the syllable under the cursor
+
+// Unshifted QWERTY keys; Shift gives the tense consonants and ㅒ/ㅖ, other shifted keys type the same jamo
+const KEYS: Record<string, string> = {
+  q: 'ㅂ', w: 'ㅈ', e: 'ㄷ', r: 'ㄱ', t: 'ㅅ', y: 'ㅛ', u: 'ㅕ', i: 'ㅑ', o: 'ㅐ', p: 'ㅔ',
+  a: 'ㅁ', s: 'ㄴ', d: 'ㅇ', f: 'ㄹ', g: 'ㅎ', h: 'ㅗ', j: 'ㅓ', k: 'ㅏ', l: 'ㅣ',
+  z: 'ㅋ', x: 'ㅌ', c: 'ㅊ', v: 'ㅍ', b: 'ㅠ', n: 'ㅜ', m: 'ㅡ'
+};
+const SHIFTED_KEYS: Record<string, string> = { Q: 'ㅃ', W: 'ㅉ', E: 'ㄸ', R: 'ㄲ', T: 'ㅆ', O: 'ㅒ', P: 'ㅖ' };
+
+// Key rows of the on-screen keyboard, as QWERTY letters
+export const KEYBOARD_ROWS = ['qwertyuiop', 'asdfghjkl', 'zxcvbnm'];
+
+// The jamo a physical key types, e.g. "r" -> ㄱ, "R" -> ㄲ
+export function jamoForKey(key: string): string | undefined {
+  if (key.length !== 1) return undefined;
+  return SHIFTED_KEYS[key] ?? KEYS[key.toLowerCase()];
+}
+
+function compose(parts: SyllableParts): string {
+  return composeSyllable(parts) ?? parts.initial + parts.medial + parts.final;
+}
+
+function isVowel(jamo: string): boolean {
+  return MEDIALS.includes(jamo);
+}
+
+// Add one jamo to the end of the text, composing it into the last syllable where Hangul allows
+export function typeJamo(text: string, jamo: string): string {
+  const chars = Array.from(text);
+  const last = chars.pop() ?? '';
+  const head = chars.join('');
+  const parts = decomposeSyllable(last);
+
+  if (isVowel(jamo)) {
+    if (parts && !parts.final) {
+      // 고 + ㅏ -> 과
+      const medial = combineJamo(parts.medial, jamo);
+      return medial ? head + compose({ ...parts, medial }) : text + jamo;
+    }
+    if (parts) {
+      // Batchim carry-over: 각 + ㅏ -> 가가, 닭 + ㅏ -> 달가
+      const finals = splitJamo(parts.final);
+      const moved = finals[finals.length - 1];
+      return head + compose({ ...parts, final: finals.slice(0, -1).join('') }) + compose({ initial: moved, medial: jamo, final: '' });
+    }
+    if (INITIALS.includes(last)) return head + compose({ initial: last, medial: jamo, final: '' });
+    // ㅗ + ㅏ -> ㅘ while no consonant has been typed yet
+    const medial = isVowel(last) ? combineJamo(last, jamo) : undefined;
+    return medial ? head + medial : text + jamo;
+  }
+
+  if (parts && !parts.final) {
+    // ㄸ, ㅃ and ㅉ cannot be a batchim, so they start the next syllable
+    return FINALS.includes(jamo) ? head + compose({ ...parts, final: jamo }) : text + jamo;
+  }
+  if (parts) {
+    // 갈 + ㄱ -> 갉
+    const final = combineJamo(parts.final, jamo);
+    return final ? head + compose({ ...parts, final }) : text + jamo;
+  }
+  return text + jamo;
+}
+
+// Backspace inside a syllable removes its last jamo: 닭 -> 달 -> 다 -> ㄷ
+export function deleteJamo(text: string): string {
+  const chars = Array.from(text);
+  const last = chars.pop();
+  if (!last) return text;
+  const head = chars.join('');
+  const parts = decomposeSyllable(last);
+  if (!parts) {
+    const split = splitJamo(last);
+    return head + (split.length > 1 ? split[0] : '');
+  }
+  if (parts.final) {
+    const finals = splitJamo(parts.final);
+    return head + compose({ ...parts, final: finals.length > 1 ? finals[0] : '' });
+  }
+  const medials = splitJamo(parts.medial);
+  if (medials.length > 1) return head + compose({ ...parts, medial: medials[0] });
+  return head + parts.initial;
+}
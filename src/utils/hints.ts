@@ -0,0 +1,57 @@
+import { decomposeSyllable, isHangulSyllable } from './hangul';
+
+// Progressive hints for typed answers: each one gives away a little more than the last
+
+export type Hint = {
+  label: string;
+  text: string;
+};
+
+const SYLLABIC = /[\p{Script=Hangul}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Han}]/u;
+const LETTER = /[\p{L}\p{N}]/u;
+
+// Hangul/kana/kanji become ○ (one per syllable), other letters _ ; spaces and punctuation stay
+function mask(text: string): string {
+  return Array.from(text).map(char => (SYLLABIC.test(char) ? '○' : LETTER.test(char) ? '_' : char)).join('');
+}
+
+// Keep the first `length` characters from the first letter on and mask the rest
+function reveal(chars: string[], start: number, shown: string, length: number): string {
+  return chars.slice(0, start).join('') + shown + mask(chars.slice(start + length).join(''));
+}
+
+// Blank out of example sentence 1, already prepared by the caller (e.g. with buildCloze)
+export type ExampleHint = {
+  text: string;
+  translation?: string;
+};
+
+export function buildHints(answer: string, example?: ExampleHint | null): Hint[] {
+  const chars = Array.from(answer.trim());
+  const start = chars.findIndex(char => LETTER.test(char));
+  if (start < 0) return [];
+  const first = chars[start];
+  const syllables = chars.filter(char => SYLLABIC.test(char)).length;
+  const hints: Hint[] = [
+    syllables > 0
+      ? { label: `Số âm tiết: ${syllables}`, text: mask(chars.join('')) }
+      : { label: `Số từ: ${chars.join('').split(/\s+/).length}`, text: mask(chars.join('')) }
+  ];
+
+  // Hangul gives its initial consonant first; anything else its first character
+  const firstInitial = isHangulSyllable(first) ? decomposeSyllable(first)?.initial : undefined;
+  hints.push({ label: 'Chữ cái đầu', text: reveal(chars, start, firstInitial ?? first, 1) });
+
+  // Latin answers (Vietnamese/English meanings) reveal the whole first word
+  let firstLength = 1;
+  if (!SYLLABIC.test(first)) {
+    while (start + firstLength < chars.length && LETTER.test(chars[start + firstLength])) firstLength++;
+  }
+  hints.push({ label: 'Âm tiết đầu', text: reveal(chars, start, chars.slice(start, start + firstLength).join(''), firstLength) });
+
+  if (example?.text) {
+    hints.push({ label: 'Ví dụ', text: example.translation ? `${example.text}\n${example.translation}` : example.text });
+  }
+  // Kana and one-letter words would repeat the previous hint
+  return hints.filter((hint, i) => i === 0 || hint.text !== hints[i - 1].text);
+}
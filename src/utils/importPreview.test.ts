@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { applyImportChoices, buildImportPreview } from './importPreview';
+
+type Row = { id: string; word: string; meaning?: string };
+
+const current: Row[] = [
+  { id: '1', word: '사과', meaning: 'táo' },
+  { id: '2', word: '배', meaning: 'lê' }
+];
+
+describe('buildImportPreview', () => {
+  it('marks rows as new, changed or unchanged', () => {
+    const rows = buildImportPreview(current, [
+      { id: '1', word: '사과', meaning: 'táo' },
+      { id: '2', word: '배', meaning: 'quả lê' },
+      { id: '3', word: '포도' }
+    ]);
+    expect(rows.map(row => row.status)).toEqual(['unchanged', 'changed', 'new']);
+    expect(rows[1].changes).toEqual([{ field: 'meaning', current: 'lê', imported: 'quả lê' }]);
+  });
+
+  it('treats a missing field as an empty one', () => {
+    const [row] = buildImportPreview(current, [{ id: '1', word: '사과' }]);
+    expect(row.changes).toEqual([{ field: 'meaning', current: 'táo', imported: '' }]);
+  });
+
+  it('keeps the last row when the file repeats an id', () => {
+    const rows = buildImportPreview(current, [
+      { id: '3', word: 'a' },
+      { id: '3', word: 'b' }
+    ]);
+    expect(rows).toHaveLength(1);
+    expect(rows[0].imported.word).toBe('b');
+  });
+});
+
+describe('applyImportChoices', () => {
+  const rows = buildImportPreview(current, [
+    { id: '1', word: '사과', meaning: 'quả táo' },
+    { id: '2', word: '배', meaning: 'quả lê' },
+    { id: '3', word: '포도' }
+  ]);
+
+  it('replaces changed rows by default and adds new ones', () => {
+    const result = applyImportChoices(current, rows, {});
+    expect(result.items.map(item => item.meaning)).toEqual(['quả táo', 'quả lê', undefined]);
+    expect(result.changedIds).toEqual(['1', '2']);
+    expect(result.written.map(item => item.id)).toEqual(['1', '2', '3']);
+  });
+
+  it('leaves a kept row alone', () => {
+    const result = applyImportChoices(current, rows, { '1': 'keep' });
+    expect(result.items[0]).toBe(current[0]);
+    expect(result.changedIds).toEqual(['2']);
+  });
+
+  it('adds the imported row under a new id when both are kept', () => {
+    const result = applyImportChoices(current, rows, { '1': 'keep-both', '2': 'keep' });
+    expect(result.items).toHaveLength(4);
+    expect(result.items[0]).toBe(current[0]);
+    const copy = result.items[2];
+    expect(copy.id).not.toBe('1');
+    expect(copy.meaning).toBe('quả táo');
+    expect(result.changedIds).toEqual([]);
+  });
+});
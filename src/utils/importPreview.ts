@@ -0,0 +1,87 @@
+// Compare a CSV import with the card's current items before anything is written
+
+export type ImportRowStatus = 'new' | 'changed' | 'unchanged';
+
+// keep: leave my row as is, replace: take the imported row, keep-both: add the imported row as a copy
+export type ImportChoice = 'keep' | 'replace' | 'keep-both';
+
+export type FieldChange = {
+  field: string;
+  current: string;
+  imported: string;
+};
+
+export type ImportRow<T> = {
+  imported: T;
+  current?: T;
+  status: ImportRowStatus;
+  changes: FieldChange[];
+};
+
+export type ImportResult<T> = {
+  items: T[]; // the card's items after the import
+  written: T[]; // items that were added or replaced and need saving
+  changedIds: string[]; // existing items whose content was replaced
+};
+
+function fieldValue(item: object, field: string): string {
+  const value = (item as Record<string, unknown>)[field];
+  return value == null ? '' : String(value);
+}
+
+function diffFields<T extends { id: string }>(current: T, imported: T): FieldChange[] {
+  const fields = new Set([...Object.keys(current), ...Object.keys(imported)]);
+  fields.delete('id');
+  const changes: FieldChange[] = [];
+  fields.forEach(field => {
+    const before = fieldValue(current, field);
+    const after = fieldValue(imported, field);
+    if (before !== after) changes.push({ field, current: before, imported: after });
+  });
+  return changes;
+}
+
+export function buildImportPreview<T extends { id: string }>(current: T[], imported: T[]): ImportRow<T>[] {
+  const currentMap = new Map(current.map(item => [item.id, item]));
+  // A repeated id inside the file: the last row wins, as the old merge did
+  const importedMap = new Map(imported.map(item => [item.id, item]));
+  return Array.from(importedMap.values()).map(item => {
+    const existing = currentMap.get(item.id);
+    if (!existing) return { imported: item, status: 'new', changes: [] };
+    const changes = diffFields(existing, item);
+    return { imported: item, current: existing, status: changes.length > 0 ? 'changed' : 'unchanged', changes };
+  });
+}
+
+export function applyImportChoices<T extends { id: string }>(
+  current: T[],
+  rows: ImportRow<T>[],
+  choices: Record<string, ImportChoice>
+): ImportResult<T> {
+  const replaced = new Map<string, T>();
+  const added: T[] = [];
+  const ids = new Set(current.map(item => item.id));
+
+  rows.forEach((row, index) => {
+    if (row.status === 'new') {
+      added.push(row.imported);
+      return;
+    }
+    if (row.status === 'unchanged') return;
+    const choice = choices[row.imported.id] ?? 'replace';
+    if (choice === 'replace') {
+      replaced.set(row.imported.id, row.imported);
+    } else if (choice === 'keep-both') {
+      let copyId = `${row.imported.id}-${Date.now().toString(36)}${index}`;
+      while (ids.has(copyId)) copyId += '_';
+      ids.add(copyId);
+      added.push({ ...row.imported, id: copyId });
+    }
+  });
+
+  return {
+    items: [...current.map(item => replaced.get(item.id) ?? item), ...added],
+    written: [...replaced.values(), ...added],
+    changedIds: Array.from(replaced.keys())
+  };
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it, vi } from 'vitest';
+import { isKana, romajiToKana, toHiragana, toKatakana } from './kana';
+
+vi.mock('./storage', () => ({ romajiRepository: {} }));
+
+describe('romajiToKana', () => {
+  it.each([
+    ['konnichiha', 'こんにちは'],
+    ['kitte', 'きって'],
+    ['matcha', 'まっちゃ'],
+    ['gakkou', 'がっこう'],
+    ["kon'ya", 'こんや'],
+    ['konya', 'こにゃ'],
+    ['tōkyō', 'とうきょう'],
+    ['tsudzuku', 'つづく'],
+    ['tsuduku', 'つづく'],
+    ['hanadji', 'はなぢ'],
+    ['hanadzi', 'はなぢ'],
+    ['chidimu', 'ちぢむ'],
+    ['nihongo desu.', 'にほんご です。']
+  ])('%s -> %s', (romaji, kana) => {
+    expect(romajiToKana(romaji, { final: true })).toBe(kana);
+  });
+
+  it('waits for the rest of a spelling while typing', () => {
+    expect(romajiToKana('tsudz')).toBe('つdz');
+  });
+
+  it('waits for the letter after a trailing n while typing', () => {
+    expect(romajiToKana('shinbun')).toBe('しんぶn');
+    expect(romajiToKana('shinbun', { final: true })).toBe('しんぶん');
+    expect(romajiToKana('honn', { final: true })).toBe('ほん');
+  });
+
+  it('writes katakana with long vowel marks', () => {
+    expect(romajiToKana('ra-men', { katakana: true, final: true })).toBe('ラーメン');
+    expect(romajiToKana('Tōkyō', { katakana: true, final: true })).toBe('トーキョー');
+    expect(romajiToKana('kōhī', { katakana: true, final: true })).toBe('コーヒー');
+  });
+
+  it('leaves kana already in the field alone', () => {
+    expect(romajiToKana('たべru', { katakana: true, final: true })).toBe('たべル');
+  });
+});
+
+describe('kana helpers', () => {
+  it('switches between hiragana and katakana', () => {
+    expect(toKatakana('ひらがな')).toBe('ヒラガナ');
+    expect(toHiragana('カタカナー')).toBe('かたかなー');
+  });
+
+  it('tells kana from kanji', () => {
+    expect(isKana('たべる ラーメン')).toBe(true);
+    expect(isKana('食べる')).toBe(false);
+  });
+});
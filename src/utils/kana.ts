@@ -0,0 +1,155 @@
+import { romajiRepository, type RomajiSettings } from './storage';
+
+// Romaji typed into an answer field is turned into kana as you go, for computers without a Japanese IME
+
+export type { RomajiSettings };
+
+const DEFAULT_SETTINGS: RomajiSettings = { enabled: false, katakana: false };
+
+export function loadRomajiSettings(): RomajiSettings {
+  return romajiRepository.loadSettings(DEFAULT_SETTINGS);
+}
+
+export function saveRomajiSettings(settings: RomajiSettings) {
+  romajiRepository.saveSettings(settings);
+}
+
+// Hepburn, Kunrei-shiki and the usual IME spellings (si, tu, hu, zi, x/l for small kana)
+const ROMAJI: Record<string, string> = {
+  a: 'あ', i: 'い', u: 'う', e: 'え', o: 'お',
+  ka: 'か', ki: 'き', ku: 'く', ke: 'け', ko: 'こ',
+  ga: 'が', gi: 'ぎ', gu: 'ぐ', ge: 'げ', go: 'ご',
+  sa: 'さ', si: 'し', shi: 'し', su: 'す', se: 'せ', so: 'そ',
+  za: 'ざ', zi: 'じ', ji: 'じ', zu: 'ず', ze: 'ぜ', zo: 'ぞ',
+  ta: 'た', ti: 'ち', chi: 'ち', tu: 'つ', tsu: 'つ', te: 'て', to: 'と',
+  da: 'だ', di: 'ぢ', dzi: 'ぢ', dji: 'ぢ', du: 'づ', dzu: 'づ', de: 'で', do: 'ど',
+  na: 'な', ni: 'に', nu: 'ぬ', ne: 'ね', no: 'の',
+  ha: 'は', hi: 'ひ', hu: 'ふ', fu: 'ふ', he: 'へ', ho: 'ほ',
+  ba: 'ば', bi: 'び', bu: 'ぶ', be: 'べ', bo: 'ぼ',
+  pa: 'ぱ', pi: 'ぴ', pu: 'ぷ', pe: 'ぺ', po: 'ぽ',
+  ma: 'ま', mi: 'み', mu: 'む', me: 'め', mo: 'も',
+  ya: 'や', yu: 'ゆ', ye: 'いぇ', yo: 'よ',
+  ra: 'ら', ri: 'り', ru: 'る', re: 'れ', ro: 'ろ',
+  wa: 'わ', wi: 'うぃ', we: 'うぇ', wo: 'を',
+  va: 'ゔぁ', vi: 'ゔぃ', vu: 'ゔ', ve: 'ゔぇ', vo: 'ゔぉ',
+  fa: 'ふぁ', fi: 'ふぃ', fe: 'ふぇ', fo: 'ふぉ',
+  kya: 'きゃ', kyu: 'きゅ', kyo: 'きょ',
+  gya: 'ぎゃ', gyu: 'ぎゅ', gyo: 'ぎょ',
+  sha: 'しゃ', shu: 'しゅ', she: 'しぇ', sho: 'しょ', sya: 'しゃ', syu: 'しゅ', syo: 'しょ',
+  ja: 'じゃ', ju: 'じゅ', je: 'じぇ', jo: 'じょ', zya: 'じゃ', zyu: 'じゅ', zyo: 'じょ', jya: 'じゃ', jyu: 'じゅ', jyo: 'じょ',
+  cha: 'ちゃ', chu: 'ちゅ', che: 'ちぇ', cho: 'ちょ', tya: 'ちゃ', tyu: 'ちゅ', tyo: 'ちょ', cya: 'ちゃ', cyu: 'ちゅ', cyo: 'ちょ',
+  dya: 'ぢゃ', dyu: 'ぢゅ', dyo: 'ぢょ',
+  tsa: 'つぁ', thi: 'てぃ', dhi: 'でぃ',
+  nya: 'にゃ', nyu: 'にゅ', nyo: 'にょ',
+  hya: 'ひゃ', hyu: 'ひゅ', hyo: 'ひょ',
+  bya: 'びゃ', byu: 'びゅ', byo: 'びょ',
+  pya: 'ぴゃ', pyu: 'ぴゅ', pyo: 'ぴょ',
+  mya: 'みゃ', myu: 'みゅ', myo: 'みょ',
+  rya: 'りゃ', ryu: 'りゅ', ryo: 'りょ',
+  xa: 'ぁ', xi: 'ぃ', xu: 'ぅ', xe: 'ぇ', xo: 'ぉ', la: 'ぁ', li: 'ぃ', lu: 'ぅ', le: 'ぇ', lo: 'ぉ',
+  xya: 'ゃ', xyu: 'ゅ', xyo: 'ょ', lya: 'ゃ', lyu: 'ゅ', lyo: 'ょ',
+  xtu: 'っ', xtsu: 'っ', ltu: 'っ', ltsu: 'っ', xwa: 'ゎ', lwa: 'ゎ',
+  '.': '。', ',': '、'
+};
+const MAX_KEY_LENGTH = 4;
+
+// Hepburn long vowels: ō is usually written おう in hiragana and オー in katakana
+const MACRONS: Record<string, { hiragana: string; katakana: string }> = {
+  ā: { hiragana: 'aa', katakana: 'a-' },
+  ī: { hiragana: 'ii', katakana: 'i-' },
+  ū: { hiragana: 'uu', katakana: 'u-' },
+  ē: { hiragana: 'ee', katakana: 'e-' },
+  ō: { hiragana: 'ou', katakana: 'o-' }
+};
+
+const KANA = /[\p{Script=Hiragana}\p{Script=Katakana}ー]/u;
+const SOKUON_CONSONANT = /[bcdfghjkmprstvwxyz]/;
+const VOWEL_OR_Y = /[aiueoy]/;
+
+// ぁ-ゖ and ゝゞ sit exactly 0x60 below their katakana
+export function toKatakana(text: string): string {
+  return text.replace(/[ぁ-ゖゝゞ]/g, char => String.fromCharCode(char.charCodeAt(0) + 0x60));
+}
+
+export function toHiragana(text: string): string {
+  return text.replace(/[ァ-ヶヽヾ]/g, char => String.fromCharCode(char.charCodeAt(0) - 0x60));
+}
+
+export function isKana(text: string): boolean {
+  return Array.from(text.replace(/\s/g, '')).every(char => KANA.test(char));
+}
+
+function isRomajiPrefix(text: string): boolean {
+  return Object.keys(ROMAJI).some(key => key.length > text.length && key.startsWith(text));
+}
+
+type ConvertOptions = {
+  katakana?: boolean;
+  // While typing, a trailing "n" or "ky" waits for the next letter; once the answer is submitted it is final
+  final?: boolean;
+};
+
+// "konnichiha" -> こんにちは, "kitte" -> きって, "ra-men" with katakana -> ラーメン; kana, kanji and
+// letters that do not spell anything are left as they are, so the text can be converted again on every keystroke
+export function romajiToKana(input: string, { katakana = false, final = false }: ConvertOptions = {}): string {
+  const text = input.replace(/[āīūēōĀĪŪĒŌ]/g, char => MACRONS[char.toLowerCase()][katakana ? 'katakana' : 'hiragana']);
+  const lower = text.toLowerCase();
+  // Only newly converted kana follow the mode, kana already in the field are left alone
+  const convert = (kana: string) => (katakana ? toKatakana(kana) : kana);
+  let output = '';
+  let i = 0;
+  while (i < lower.length) {
+    const char = lower[i];
+    const next = lower[i + 1];
+
+    if (char === 'n' && !(next !== undefined && VOWEL_OR_Y.test(next))) {
+      // n' and nn spell ん; "nni" is ん + に, so only the first n is used up then
+      if (next === undefined && !final) {
+        output += text.slice(i);
+        break;
+      }
+      if (next === 'n' && lower[i + 2] === undefined && !final) {
+        output += text.slice(i);
+        break;
+      }
+      output += convert('ん');
+      const nextIsVowel = lower[i + 2] !== undefined && VOWEL_OR_Y.test(lower[i + 2]);
+      i += next === "'" || (next === 'n' && !nextIsVowel) ? 2 : 1;
+      continue;
+    }
+
+    // Sokuon: a doubled consonant, or the t of "tch"
+    if ((next === char && SOKUON_CONSONANT.test(char)) || (char === 't' && next === 'c' && lower[i + 2] === 'h')) {
+      output += convert('っ');
+      i++;
+      continue;
+    }
+
+    if (char === '-' && KANA.test(output.slice(-1))) {
+      output += 'ー';
+      i++;
+      continue;
+    }
+
+    let matched = false;
+    for (let length = MAX_KEY_LENGTH; length > 0; length--) {
+      const kana = ROMAJI[lower.slice(i, i + length)];
+      if (kana) {
+        output += convert(kana);
+        i += length;
+        matched = true;
+        break;
+      }
+    }
+    if (matched) continue;
+
+    const rest = lower.slice(i);
+    if (!final && isRomajiPrefix(rest)) {
+      output += text.slice(i);
+      break;
+    }
+    output += text[i];
+    i++;
+  }
+  return output;
+}
@@ -0,0 +1,81 @@
+import type { StudyItem } from '../types';
+import { shuffle } from './deck';
+import { ANSWER_DIRECTIONS, answerOf, canAsk, type AnswerDirection, type CheckDirection } from './directions';
+import { cardsRepository, itemsRepository } from './storage';
+
+// Multiple-choice quiz: one correct option and three distractors taken from other items
+
+export type QuizQuestion = {
+  item: StudyItem;
+  direction: AnswerDirection;
+  answer: string;
+  options: string[]; // answer included, in random order
+};
+
+const OPTION_COUNT = 4;
+// A card with fewer distinct answers than this borrows distractors from the rest of the category
+const MIN_POOL = 8;
+
+function normalize(text: string): string {
+  return text.trim().toLowerCase();
+}
+
+// Shared characters (syllables for Hangul) count twice as much as a similar length
+function similarity(a: string, b: string): number {
+  const left = Array.from(a).filter(char => /\S/.test(char));
+  const right = Array.from(b).filter(char => /\S/.test(char));
+  const counts = new Map<string, number>();
+  left.forEach(char => counts.set(char, (counts.get(char) ?? 0) + 1));
+  let shared = 0;
+  right.forEach(char => {
+    const n = counts.get(char) ?? 0;
+    if (n > 0) {
+      shared++;
+      counts.set(char, n - 1);
+    }
+  });
+  const longest = Math.max(left.length, right.length, 1);
+  return (2 * shared) / longest + 1 - Math.abs(left.length - right.length) / longest;
+}
+
+export function pickDistractors(answer: string, candidates: string[], count = OPTION_COUNT - 1): string[] {
+  const seen = new Set([normalize(answer)]);
+  const unique = candidates.filter(candidate => {
+    const key = normalize(candidate);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  // A little noise so the same card does not always get the same three distractors
+  return unique
+    .map(candidate => ({ candidate, score: similarity(answer, candidate) + Math.random() * 0.5 }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, count)
+    .map(({ candidate }) => candidate);
+}
+
+// The card's own items, plus the other cards of the category when the card is too small
+export async function loadDistractorPool(category: 'vocab' | 'grammar', cardId: string | undefined, items: StudyItem[]): Promise<StudyItem[]> {
+  if (new Set(items.map(item => normalize(item.korean))).size >= MIN_POOL || !cardId) return items;
+  const others = await Promise.all(
+    cardsRepository.load(category)
+      .filter(card => card.id !== cardId)
+      .map(card => itemsRepository.load(category, card.id))
+  );
+  return [...items, ...others.flat()];
+}
+
+export function buildQuiz(items: StudyItem[], pool: StudyItem[], direction: CheckDirection): QuizQuestion[] {
+  const questions: QuizQuestion[] = [];
+  shuffle(items).forEach(item => {
+    const askable = (direction === 'mixed' ? ANSWER_DIRECTIONS : [direction]).filter(d => canAsk(item, d) && answerOf(item, d).trim());
+    if (askable.length === 0) return;
+    const asked = askable[Math.floor(Math.random() * askable.length)];
+    const answer = answerOf(item, asked).trim();
+    const distractors = pickDistractors(answer, pool.filter(other => other !== item).map(other => answerOf(other, asked).trim()));
+    // Nothing to choose from in a one-item deck
+    if (distractors.length === 0) return;
+    questions.push({ item, direction: asked, answer, options: shuffle([answer, ...distractors]) });
+  });
+  return questions;
+}
@@ -0,0 +1,111 @@
+import type { StudyItem } from '../types';
+import { reviewItem, type ReviewQuality, type ReviewState } from './srs';
+import { cardsRepository, itemsRepository, progressRepository, reviewRepository, type DailyReviewCounter, type ReviewSettings } from './storage';
+
+// Daily review across every vocab, grammar and sentence card
+
+export type ReviewCategory = 'vocab' | 'grammar' | 'sentences';
+export type { ReviewSettings };
+
+export type ReviewSource = {
+  category: ReviewCategory;
+  cardId: string;
+  cardName: string;
+  itemId: string;
+};
+
+export type ReviewEntry = {
+  item: StudyItem; // id is the queue key (category:cardId:itemId), unique across cards
+  source: ReviewSource;
+  state?: ReviewState;
+  isSentence: boolean;
+};
+
+const DEFAULT_SETTINGS: ReviewSettings = { newPerDay: 20, reviewsPerDay: 200 };
+
+function today(now = Date.now()): string {
+  const d = new Date(now);
+  return `${d.getFullYear()}-${d.getMonth() + 1}-${d.getDate()}`;
+}
+
+export function loadReviewSettings(): ReviewSettings {
+  return reviewRepository.loadSettings(DEFAULT_SETTINGS);
+}
+
+export function saveReviewSettings(settings: ReviewSettings) {
+  reviewRepository.saveSettings(settings);
+}
+
+function loadDailyCounter(now = Date.now()): DailyReviewCounter {
+  const counter = reviewRepository.loadDaily();
+  if (!counter || counter.day !== today(now)) {
+    return { day: today(now), newIds: [], reviewedIds: [] };
+  }
+  return counter;
+}
+
+async function collectEntries(): Promise<ReviewEntry[]> {
+  const entries: ReviewEntry[] = [];
+  for (const category of ['vocab', 'grammar', 'sentences'] as const) {
+    for (const card of cardsRepository.load(category)) {
+      // Same schedule the card's own check mode uses
+      const schedule = progressRepository.load('check', category, card.id);
+      if (category === 'sentences') {
+        const sentences = await itemsRepository.load('sentences', card.id);
+        sentences.filter(s => s.sentence).forEach(s => {
+          entries.push({
+            item: { id: `${category}:${card.id}:${s.id}`, korean: s.sentence, vietnamese: s.vietnamese, english: '' },
+            source: { category, cardId: card.id, cardName: card.name, itemId: s.id },
+            state: schedule[s.id],
+            isSentence: true
+          });
+        });
+      } else {
+        const items = await itemsRepository.load(category, card.id);
+        items.filter(i => i.korean || i.vietnamese || i.english).forEach(i => {
+          entries.push({
+            item: { ...i, id: `${category}:${card.id}:${i.id}` },
+            source: { category, cardId: card.id, cardName: card.name, itemId: i.id },
+            state: schedule[i.id],
+            isSentence: false
+          });
+        });
+      }
+    }
+  }
+  return entries;
+}
+
+// Due items first (most overdue first), then new items, both limited by what is left for today
+export async function buildReviewQueue(now = Date.now()): Promise<ReviewEntry[]> {
+  const settings = loadReviewSettings();
+  const counter = loadDailyCounter(now);
+  const entries = await collectEntries();
+
+  const due = entries
+    .filter(e => e.state && e.state.due <= now)
+    .sort((a, b) => (a.state?.due ?? 0) - (b.state?.due ?? 0))
+    .slice(0, Math.max(0, settings.reviewsPerDay - counter.reviewedIds.length));
+  const fresh = entries
+    .filter(e => !e.state)
+    .slice(0, Math.max(0, settings.newPerDay - counter.newIds.length));
+
+  return [...due, ...fresh];
+}
+
+// Persist a review into the card's own schedule and count it against today's limits
+export function recordReviewAnswer(entry: ReviewEntry, quality: ReviewQuality, now = Date.now(), hintsUsed = 0): ReviewState {
+  const { category, cardId, itemId } = entry.source;
+  const wasNew = !progressRepository.load('check', category, cardId)[itemId];
+  const schedule = progressRepository.updateItem('check', category, itemId, state => reviewItem(state, quality, now, hintsUsed), cardId);
+  const nextState = schedule[itemId]!;
+
+  const counter = loadDailyCounter(now);
+  const key = entry.item.id;
+  if (!counter.newIds.includes(key) && !counter.reviewedIds.includes(key)) {
+    if (wasNew) counter.newIds.push(key);
+    else counter.reviewedIds.push(key);
+    reviewRepository.saveDaily(counter);
+  }
+  return nextState;
+}
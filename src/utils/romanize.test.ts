@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { extractRomanization, romanize } from './romanize';
+
+// Examples from the rules themselves (국어의 로마자 표기법, 제3장 제1항) first, then everyday words
+const CASES: [string, string][] = [
+  // Liaison and the representative sounds
+  ['한국어', 'hangugeo'],
+  ['닭', 'dak'],
+  ['닭이', 'dalgi'],
+  ['값이', 'gapsi'],
+  ['앉아', 'anja'],
+  ['읽다', 'ikda'],
+  ['없어요', 'eopseoyo'],
+  ['안녕하세요', 'annyeonghaseyo'],
+  ['의사', 'uisa'],
+  ['여권', 'yeogwon'],
+  // 1. Assimilation
+  ['백마', 'baengma'],
+  ['종로', 'jongno'],
+  ['왕십리', 'wangsimni'],
+  ['별내', 'byeollae'],
+  ['신라', 'silla'],
+  ['설날', 'seollal'],
+  ['별로', 'byeollo'],
+  ['국물', 'gungmul'],
+  ['합니다', 'hamnida'],
+  ['있는', 'inneun'],
+  ['독립', 'dongnip'],
+  ['협력', 'hyeomnyeok'],
+  ['동료', 'dongnyo'],
+  // 2. ㄴ and ㄹ insertion
+  ['학여울', 'hangnyeoul'],
+  ['알약', 'allyak'],
+  ['한여름', 'hannyeoreum'],
+  ['금요일', 'geumyoil'],
+  ['목욕', 'mogyok'],
+  ['물약', 'mullyak'],
+  ['절약', 'jeoryak'],
+  ['협약', 'hyeobyak'],
+  ['공약', 'gongyak'],
+  ['선약', 'seonyak'],
+  ['언약', 'eonyak'],
+  // 3. Palatalization
+  ['해돋이', 'haedoji'],
+  ['같이', 'gachi'],
+  ['굳이', 'guji'],
+  ['맞히다', 'machida'],
+  ['묻혀', 'muchyeo'],
+  // 4. Aspiration in verbs, the h kept in nouns
+  ['좋고', 'joko'],
+  ['놓다', 'nota'],
+  ['잡혀', 'japyeo'],
+  ['낳지', 'nachi'],
+  ['착하다', 'chakada'],
+  ['축하해요', 'chukahaeyo'],
+  ['묵호', 'mukho'],
+  ['집현전', 'jiphyeonjeon'],
+  ['축하', 'chukha'],
+  ['입학', 'iphak'],
+  ['백화점', 'baekhwajeom'],
+  // Silent ㅎ and ㅎ before ㅅ and ㄴ
+  ['좋아', 'joa'],
+  ['많아', 'mana'],
+  ['싫어', 'sireo'],
+  ['괜찮아요', 'gwaenchanayo'],
+  ['좋습니다', 'josseumnida'],
+  ['놓는', 'nonneun'],
+  // ㄼ is read as l, but as p in 밟-
+  ['넓다', 'neolda'],
+  ['여덟', 'yeodeol'],
+  ['밟다', 'bapda'],
+  ['밟는', 'bamneun'],
+  ['밟아', 'balba'],
+  // Tensing is not written
+  ['압구정', 'apgujeong'],
+  ['낙동강', 'nakdonggang'],
+  // Words are romanized one by one
+  ['약속을 지키다', 'yaksogeul jikida']
+];
+
+describe('romanize', () => {
+  it.each(CASES)('%s -> %s', (korean, expected) => {
+    expect(romanize(korean)).toBe(expected);
+  });
+
+  it('keeps text that is not Hangul', () => {
+    expect(romanize('A급 (은/는)')).toBe('Ageup (eun/neun)');
+  });
+});
+
+describe('extractRomanization', () => {
+  it.each([
+    ['동료 (dong-ryo)', '동료', 'dong-ryo'],
+    ['여권 (yeo-kkwon)', '여권', 'yeo-kkwon'],
+    ['김치 (kimchi)', '김치', 'kimchi'],
+    ['착하다 (cha-ka-da)', '착하다', 'cha-ka-da']
+  ])('moves the romanization out of %s', (text, korean, romanization) => {
+    expect(extractRomanization(text)).toEqual({ korean, romanization });
+  });
+
+  it.each([
+    ['사과 (sorry)'],
+    ['차 (tea)'],
+    ['합니다 (formal)'],
+    ['드세요 (hon.)'],
+    ['(으)세요']
+  ])('leaves glosses and optional parts in %s', text => {
+    expect(extractRomanization(text)).toEqual({ korean: text, romanization: '' });
+  });
+});
@@ -0,0 +1,198 @@
+import type { StudyItem } from '../types';
+import { decomposeSyllable, splitJamo, type SyllableParts } from './hangul';
+import { stripAnnotations } from './answers';
+
+// Revised Romanization of Korean (국어의 로마자 표기법): spelled as pronounced, so the sound changes
+// between syllables of a word (liaison, nasalization, ㄹ assimilation, ㄴ insertion, aspiration,
+// palatalization) are applied; tensing is not written, as the rules say
+
+const ONSETS: Record<string, string> = {
+  ㄱ: 'g', ㄲ: 'kk', ㄴ: 'n', ㄷ: 'd', ㄸ: 'tt', ㄹ: 'r', ㅁ: 'm', ㅂ: 'b', ㅃ: 'pp', ㅅ: 's',
+  ㅆ: 'ss', ㅇ: '', ㅈ: 'j', ㅉ: 'jj', ㅊ: 'ch', ㅋ: 'k', ㅌ: 't', ㅍ: 'p', ㅎ: 'h'
+};
+
+const VOWELS: Record<string, string> = {
+  ㅏ: 'a', ㅐ: 'ae', ㅑ: 'ya', ㅒ: 'yae', ㅓ: 'eo', ㅔ: 'e', ㅕ: 'yeo', ㅖ: 'ye', ㅗ: 'o', ㅘ: 'wa', ㅙ: 'wae',
+  ㅚ: 'oe', ㅛ: 'yo', ㅜ: 'u', ㅝ: 'wo', ㅞ: 'we', ㅟ: 'wi', ㅠ: 'yu', ㅡ: 'eu', ㅢ: 'ui', ㅣ: 'i'
+};
+
+// How a batchim sounds before a consonant or at the end of a word: the seven representative sounds
+const CODAS: Record<string, string> = {
+  ㄱ: 'k', ㄲ: 'k', ㅋ: 'k', ㄳ: 'k', ㄺ: 'k',
+  ㄴ: 'n', ㄵ: 'n', ㄶ: 'n',
+  ㄷ: 't', ㅅ: 't', ㅆ: 't', ㅈ: 't', ㅊ: 't', ㅌ: 't', ㅎ: 't',
+  ㄹ: 'l', ㄼ: 'l', ㄽ: 'l', ㄾ: 'l', ㅀ: 'l',
+  ㅁ: 'm', ㄻ: 'm',
+  ㅂ: 'p', ㅍ: 'p', ㅄ: 'p', ㄿ: 'p',
+  ㅇ: 'ng'
+};
+
+// ㄱ, ㄷ, ㅂ, ㅈ next to ㅎ merge with it into an aspirated consonant (좋고 joko, 잡혀 japyeo)
+const ASPIRATED: Record<string, string> = { ㄱ: 'k', ㄲ: 'k', ㄷ: 't', ㅅ: 't', ㅈ: 'ch', ㅊ: 'ch', ㅌ: 't', ㅂ: 'p' };
+
+// Before ㄴ and ㅁ the stops become nasals (국물 gungmul, 있는 inneun, 합니다 hamnida)
+const NASALIZED: Record<string, string> = { k: 'ng', t: 'n', p: 'm' };
+
+// ㄴ is inserted where the second part of a compound starts with 이, 야, 여, 요 or 유 (학여울
+// hangnyeoul, 알약 allyak). Spelling cannot tell a compound from words such as 금요일 or 목욕, so
+// only second parts that almost always start a compound get it
+const COMPOUND_SECOND_PARTS = ['여름', '여울', '엿'];
+// 약 (medicine) starts a compound only in these; Sino-Korean 절약, 협약, 공약 are read without ㄴ
+const COMPOUNDS_WITH_YAK = ['알약', '물약', '안약'];
+
+type Boundary = { coda: string; onset: string };
+
+// Where the next syllable sits in its word
+type Position = { endsWord: boolean; startsCompoundPart: boolean };
+
+// The batchim that stays in place and the one that moves to the next syllable: 닭이 -> 달 + 기
+function splitFinal(final: string): { kept: string; moved: string } {
+  const [first, second] = splitJamo(final);
+  return second ? { kept: first, moved: second } : { kept: '', moved: first };
+}
+
+// RR writes ㄱ, ㄷ, ㅂ + ㅎ as aspirated in verbs (잡혀 japyeo, 착하다 chakada) but keeps the h in
+// nouns (묵호 mukho, 집현전 jiphyeonjeon). Verbs are told by the ㅎ syllable: the suffix 히/혀, or a
+// form of 하다 other than a bare word-final 하 as in the noun 축하 chukha
+function isVerbalH(next: SyllableParts, { endsWord }: Position): boolean {
+  if (next.medial === 'ㅣ') return ['', 'ㄴ', 'ㄹ', 'ㅁ'].includes(next.final);
+  if (next.medial === 'ㅕ' || next.medial === 'ㅐ') return next.final === '' || next.final === 'ㅆ';
+  if (next.medial === 'ㅏ') return next.final === '' ? !endsWord : ['ㄴ', 'ㄹ', 'ㅂ'].includes(next.final);
+  return false;
+}
+
+// Sound of a batchim followed by the next syllable of the same word
+function joinSyllables(current: SyllableParts, next: SyllableParts, position: Position): Boundary {
+  const final = current.final;
+  const initial = next.initial;
+  const coda = CODAS[final] ?? '';
+  if (!final) return { coda: '', onset: ONSETS[initial] };
+
+  if (initial === 'ㅇ' && position.startsCompoundPart && final !== 'ㅎ') {
+    return joinSyllables(current, { ...next, initial: 'ㄴ' }, position);
+  }
+
+  if (initial === 'ㅇ') {
+    if (final === 'ㅇ') return { coda: 'ng', onset: '' };
+    const { kept, moved } = splitFinal(final);
+    const keptCoda = CODAS[kept] ?? '';
+    // ㅎ is silent before a vowel (좋아 joa, 많아 mana)
+    if (moved === 'ㅎ') return kept ? { coda: '', onset: ONSETS[kept] } : { coda: '', onset: '' };
+    // Palatalization: 같이 gachi, 굳이 guji
+    if (next.medial === 'ㅣ' && (moved === 'ㄷ' || moved === 'ㅌ')) return { coda: keptCoda, onset: moved === 'ㄷ' ? 'j' : 'ch' };
+    return { coda: keptCoda, onset: ONSETS[moved] };
+  }
+
+  if (initial === 'ㅎ' && isVerbalH(next, position)) {
+    const { kept, moved } = splitFinal(final);
+    // 묻히다 muchida: ㄷ + 히 is palatalized as well as aspirated
+    if (moved === 'ㄷ' && (next.medial === 'ㅣ' || next.medial === 'ㅕ')) return { coda: CODAS[kept] ?? '', onset: 'ch' };
+    if (ASPIRATED[moved]) return { coda: CODAS[kept] ?? '', onset: ASPIRATED[moved] };
+  }
+
+  if (initial === 'ㅎ') return { coda, onset: 'h' };
+
+  if (final === 'ㅎ' || final === 'ㄶ' || final === 'ㅀ') {
+    const kept = final === 'ㅎ' ? '' : splitJamo(final)[0];
+    if (initial === 'ㄱ' || initial === 'ㄷ' || initial === 'ㅈ') return { coda: CODAS[kept] ?? '', onset: ASPIRATED[initial] };
+    // 좋습니다 josseumnida
+    if (initial === 'ㅅ') return { coda: CODAS[kept] ?? '', onset: 'ss' };
+    // 놓는 nonneun, 않는 anneun, 뚫는 ttulleun
+    if (initial === 'ㄴ') return kept === 'ㄹ' ? { coda: 'l', onset: 'l' } : { coda: 'n', onset: 'n' };
+  }
+
+  if (initial === 'ㄹ') {
+    // 신라 silla, 별로 byeollo
+    if (coda === 'n' || coda === 'l') return { coda: 'l', onset: 'l' };
+    // 종로 jongno, 심리 simni; after a stop both change: 독립 dongnip, 협력 hyeomnyeok
+    return { coda: NASALIZED[coda] ?? coda, onset: 'n' };
+  }
+
+  if (initial === 'ㄴ' || initial === 'ㅁ') {
+    // 설날 seollal
+    if (coda === 'l' && initial === 'ㄴ') return { coda: 'l', onset: 'l' };
+    return { coda: NASALIZED[coda] ?? coda, onset: ONSETS[initial] };
+  }
+
+  return { coda, onset: ONSETS[initial] };
+}
+
+// "한국어" -> "hangugeo", "약속을 지키다" -> "yaksogeul jikida"; text that is not Hangul is kept as it is
+export function romanize(text: string): string {
+  const chars = Array.from(text);
+  const parts = chars.map(decomposeSyllable);
+  let result = '';
+  let onset: string | null = null; // set by the previous syllable of the same word
+  parts.forEach((parsed, i) => {
+    if (!parsed) {
+      result += chars[i];
+      onset = null;
+      return;
+    }
+    const next = parts[i + 1];
+    // 밟- is the one stem whose ㄼ sounds as ㅂ before a consonant (밟다 bapda, 밟는 bamneun)
+    const isBalp = parsed.initial === 'ㅂ' && parsed.medial === 'ㅏ' && parsed.final === 'ㄼ';
+    const syllable = isBalp && next?.initial !== 'ㅇ' ? { ...parsed, final: 'ㅂ' } : parsed;
+    result += (onset ?? ONSETS[syllable.initial]) + VOWELS[syllable.medial];
+    if (next) {
+      const rest = chars.slice(i + 1).join('');
+      const boundary = joinSyllables(syllable, next, {
+        endsWord: !parts[i + 2],
+        startsCompoundPart: COMPOUND_SECOND_PARTS.some(part => rest.startsWith(part)) ||
+          COMPOUNDS_WITH_YAK.some(word => (chars[i] + rest).startsWith(word))
+      });
+      result += boundary.coda;
+      onset = boundary.onset;
+    } else {
+      result += CODAS[syllable.final] ?? '';
+      onset = null;
+    }
+  });
+  return result;
+}
+
+const RR_LETTERS = /^[abcdeghijklmnoprstuwy\s'’\-/.,]+$/i;
+const GROUP = /\s*[(（]([^()（）]*)[)）]/g;
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1), previous[j] + 1, row[j - 1] + 1);
+    }
+    previous = row;
+  }
+  return previous[b.length];
+}
+
+// Hand-typed romanization rarely follows the rules (동료 "dong-ryo" is dongnyo), so it only has to
+// come close to the generated form: about one letter in three may differ, which still tells a
+// gloss such as 사과 "(sorry)" or 차 "(tea)" apart
+function looksLikeRomanization(text: string, korean: string): boolean {
+  if (!RR_LETTERS.test(text)) return false;
+  const letters = (value: string) => value.toLowerCase().replace(/[^a-z]/g, '');
+  const typed = letters(text);
+  const expected = letters(romanize(korean));
+  if (!typed || !expected) return false;
+  return editDistance(typed, expected) <= Math.max(1, Math.round(expected.length / 3));
+}
+
+// On import, "동료 (dong-ryo)" becomes korean "동료" with romanization "dong-ryo"; glosses such as
+// "(formal)" and optional parts such as "(으)세요" stay in the word
+export function extractRomanization(text: string): { korean: string; romanization: string } {
+  const found: string[] = [];
+  const word = text.replace(GROUP, '');
+  const korean = text.replace(GROUP, (group, inner: string) => {
+    if (!looksLikeRomanization(inner, word)) return group;
+    found.push(inner.trim());
+    return '';
+  }).trim();
+  return { korean, romanization: found.join(' ') };
+}
+
+// Generated from the word itself; a romanization stored on the item is shown separately, since
+// hand-typed ones often do not follow the rules
+export function romanizeItem(item: StudyItem): string {
+  return romanize(stripAnnotations(item.korean));
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { compareSentences, splitKoreanWords } from './sentence';
+
+const statuses = (typed: string, expected: string) => compareSentences(typed, expected).map(r => r.status);
+
+describe('splitKoreanWords', () => {
+  it('splits on spaces and drops punctuation', () => {
+    expect(splitKoreanWords('저는 학생입니다. 반가워요!')).toEqual(['저는', '학생입니다', '반가워요']);
+  });
+});
+
+describe('compareSentences', () => {
+  it('marks every word of an exact answer correct', () => {
+    expect(statuses('저는 학생입니다', '저는 학생입니다.')).toEqual(['correct', 'correct']);
+  });
+
+  it('marks only the missing word when one is left out', () => {
+    const result = compareSentences('저는 학생입니다', '저는 대학교 학생입니다');
+    expect(result.map(r => r.status)).toEqual(['correct', 'missing', 'correct']);
+    expect(result[1].expected).toBe('대학교');
+  });
+
+  it('marks only the extra word when one is added', () => {
+    expect(statuses('저는 정말 학생입니다', '저는 학생입니다')).toEqual(['correct', 'extra', 'correct']);
+  });
+
+  it('marks a wrong word as substituted', () => {
+    const result = compareSentences('저는 선생님입니다', '저는 학생입니다');
+    expect(result[1]).toEqual({ word: '선생님입니다', expected: '학생입니다', status: 'substituted', isCorrect: false });
+  });
+
+  it('accepts words that only differ in spacing', () => {
+    const result = compareSentences('공부 하다', '공부하다');
+    expect(result).toEqual([{ word: '공부 하다', expected: '공부하다', status: 'correct', isCorrect: true }]);
+  });
+
+  it('keeps equal neighbouring words apart', () => {
+    expect(compareSentences('네 네', '네 네').map(r => r.word)).toEqual(['네', '네']);
+  });
+});
@@ -0,0 +1,98 @@
+// Word-by-word sentence grading shared by sentence check and dictation
+
+export type WordStatus = 'correct' | 'substituted' | 'missing' | 'extra';
+
+// word is what was typed (empty when missing), expected is the word from the answer (empty when extra)
+export type WordResult = { word: string; expected: string; status: WordStatus; isCorrect: boolean };
+
+// Up to this many words on either side may be joined when only the spacing differs (공부 하다 / 공부하다)
+const MAX_JOINED = 3;
+
+// Split Korean sentence into words (simple word segmentation)
+export function splitKoreanWords(sentence: string): string[] {
+  // Remove punctuation and split by spaces
+  const cleaned = sentence.replace(/[.,!?;:]/g, ' ').trim();
+  return cleaned.split(/\s+/).filter(w => w.length > 0);
+}
+
+function normalizeWord(word: string): string {
+  return word.normalize('NFC').toLowerCase();
+}
+
+type Step =
+  | { kind: 'match'; typed: number; expected: number } // how many words on each side
+  | { kind: 'substitute' }
+  | { kind: 'extra' }
+  | { kind: 'missing' };
+
+// Align user input with the correct sentence by edit distance over words, so one missing or extra
+// word only marks itself wrong instead of everything after it
+export function compareSentences(userInput: string, correctSentence: string): WordResult[] {
+  const typed = splitKoreanWords(userInput);
+  const expected = splitKoreanWords(correctSentence);
+  const typedNorm = typed.map(normalizeWord);
+  const expectedNorm = expected.map(normalizeWord);
+  const joined = (words: string[], from: number, count: number) => words.slice(from, from + count).join('');
+
+  // cost[i][j]: fewest mistakes aligning the first i typed words with the first j expected words
+  const cost: number[][] = Array.from({ length: typed.length + 1 }, () => new Array(expected.length + 1).fill(Infinity));
+  const steps: (Step | null)[][] = Array.from({ length: typed.length + 1 }, () => new Array(expected.length + 1).fill(null));
+  cost[0][0] = 0;
+
+  function relax(i: number, j: number, value: number, step: Step) {
+    if (value < cost[i][j]) {
+      cost[i][j] = value;
+      steps[i][j] = step;
+    }
+  }
+
+  for (let i = 0; i <= typed.length; i++) {
+    for (let j = 0; j <= expected.length; j++) {
+      const base = cost[i][j];
+      if (base === Infinity) continue;
+      // Matches first so they win ties against a substitution of the same cost. Words are only joined
+      // where the spacing actually differs, so equal neighbours still show up one by one.
+      const sameWord = i < typed.length && j < expected.length && typedNorm[i] === expectedNorm[j];
+      if (sameWord) relax(i + 1, j + 1, base, { kind: 'match', typed: 1, expected: 1 });
+      for (let a = 1; !sameWord && a <= MAX_JOINED && i + a <= typed.length; a++) {
+        for (let b = 1; b <= MAX_JOINED && j + b <= expected.length; b++) {
+          if (joined(typedNorm, i, a) === joined(expectedNorm, j, b)) {
+            relax(i + a, j + b, base, { kind: 'match', typed: a, expected: b });
+          }
+        }
+      }
+      if (i < typed.length && j < expected.length) relax(i + 1, j + 1, base + 1, { kind: 'substitute' });
+      if (i < typed.length) relax(i + 1, j, base + 1, { kind: 'extra' });
+      if (j < expected.length) relax(i, j + 1, base + 1, { kind: 'missing' });
+    }
+  }
+
+  const result: WordResult[] = [];
+  let i = typed.length;
+  let j = expected.length;
+  while (i > 0 || j > 0) {
+    const step = steps[i][j];
+    if (!step) break;
+    if (step.kind === 'match') {
+      i -= step.typed;
+      j -= step.expected;
+      result.push({
+        word: typed.slice(i, i + step.typed).join(' '),
+        expected: expected.slice(j, j + step.expected).join(' '),
+        status: 'correct',
+        isCorrect: true
+      });
+    } else if (step.kind === 'substitute') {
+      i--;
+      j--;
+      result.push({ word: typed[i], expected: expected[j], status: 'substituted', isCorrect: false });
+    } else if (step.kind === 'extra') {
+      i--;
+      result.push({ word: typed[i], expected: '', status: 'extra', isCorrect: false });
+    } else {
+      j--;
+      result.push({ word: '', expected: expected[j], status: 'missing', isCorrect: false });
+    }
+  }
+  return result.reverse();
+}
@@ -0,0 +1,67 @@
+import type { StudyItem } from '../types';
+
+// What happened during one run of a check or flashcard deck, for the end-of-session report
+
+export type SessionAttempt = {
+  item: StudyItem;
+  answer: string; // what was typed; empty for flashcards
+  correct: boolean;
+  hintsUsed: number;
+  answeredAt: number;
+};
+
+export type MissedItem = {
+  item: StudyItem;
+  answers: string[]; // distinct wrong answers, in the order they were given
+};
+
+export type HintedItem = {
+  item: StudyItem;
+  hintsUsed: number; // most hints taken on a single attempt
+};
+
+export type SessionSummary = {
+  attempts: number;
+  correct: number;
+  accuracy: number; // 0..1 over all attempts, so a requeued miss counts every time
+  durationMs: number; // from the start to the last answer, so idling on the report does not count
+  missed: MissedItem[];
+  hinted: HintedItem[];
+};
+
+export function summarizeSession(attempts: SessionAttempt[], startedAt: number): SessionSummary {
+  const missed = new Map<string, MissedItem>();
+  const hinted = new Map<string, HintedItem>();
+  attempts.forEach(({ item, answer, correct, hintsUsed }) => {
+    if (!correct) {
+      const entry = missed.get(item.id) ?? { item, answers: [] };
+      const typed = answer.trim();
+      if (typed && !entry.answers.includes(typed)) entry.answers.push(typed);
+      missed.set(item.id, entry);
+    }
+    if (hintsUsed > 0) {
+      const entry = hinted.get(item.id);
+      hinted.set(item.id, { item, hintsUsed: Math.max(hintsUsed, entry?.hintsUsed ?? 0) });
+    }
+  });
+  const correct = attempts.filter(a => a.correct).length;
+  const endedAt = attempts.reduce((last, a) => Math.max(last, a.answeredAt), startedAt);
+  return {
+    attempts: attempts.length,
+    correct,
+    accuracy: attempts.length > 0 ? correct / attempts.length : 0,
+    durationMs: endedAt - startedAt,
+    missed: Array.from(missed.values()),
+    hinted: Array.from(hinted.values())
+  };
+}
+
+// 754000 -> "12 phút 34 giây"
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+  if (hours > 0) return `${hours} giờ ${minutes % 60} phút`;
+  if (minutes > 0) return `${minutes} phút ${seconds % 60} giây`;
+  return `${seconds} giây`;
+}
@@ -1,6 +1,64 @@
-export function speakKorean(text: string | undefined | null) {
+import { getStudyLanguage, type StudyLanguage } from './language';
+import { speechRepository, type SpeechSettings } from './storage';
+
+// Text-to-speech in the study language, with a voice, rate and pitch chosen per language
+
+export type { SpeechSettings };
+
+const LOCALES: Record<StudyLanguage, string> = { ko: 'ko-KR', ja: 'ja-JP' };
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = { voiceURI: '', rate: 1, pitch: 1 };
+export const RATE_RANGE = { min: 0.5, max: 2 };
+export const PITCH_RANGE = { min: 0, max: 2 };
+
+function isSupported(): boolean {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window;
+}
+
+export function loadSpeechSettings(language: StudyLanguage = getStudyLanguage()): SpeechSettings {
+  return speechRepository.loadSettings(DEFAULT_SPEECH_SETTINGS, language);
+}
+
+export function saveSpeechSettings(settings: SpeechSettings, language: StudyLanguage = getStudyLanguage()) {
+  speechRepository.saveSettings(settings, language);
+}
+
+// Some browsers report "ko_KR" instead of "ko-KR"
+function normalizeLang(lang: string | undefined): string {
+  return (lang ?? '').toLowerCase().replace('_', '-');
+}
+
+// Installed voices for a language
+export function voicesFor(language: StudyLanguage): SpeechSynthesisVoice[] {
+  if (!isSupported()) return [];
+  return window.speechSynthesis.getVoices().filter(v => {
+    const lang = normalizeLang(v.lang);
+    return lang === language || lang.startsWith(`${language}-`);
+  });
+}
+
+// Voices are loaded asynchronously in most browsers; returns the unsubscribe function
+export function onVoicesChanged(callback: () => void): () => void {
+  if (!isSupported()) return () => {};
+  window.speechSynthesis.addEventListener('voiceschanged', callback);
+  return () => window.speechSynthesis.removeEventListener('voiceschanged', callback);
+}
+
+export function localeOf(language: StudyLanguage): string {
+  return LOCALES[language];
+}
+
+// The chosen voice if it is still installed, else the first one for the exact locale, else any for the language
+function pickVoice(language: StudyLanguage, voiceURI: string): SpeechSynthesisVoice | undefined {
+  const voices = voicesFor(language);
+  return voices.find(v => v.voiceURI === voiceURI)
+    ?? voices.find(v => normalizeLang(v.lang) === LOCALES[language].toLowerCase())
+    ?? voices[0];
+}
+
+// rateFactor < 1 speaks slower than the configured rate, e.g. for dictation
+export function speak(text: string | undefined | null, rateFactor = 1, language: StudyLanguage = getStudyLanguage()) {
   if (!text) return;
-  if (typeof window === 'undefined' || !('speechSynthesis' in window)) {
+  if (!isSupported()) {
     console.warn('Web Speech API not supported in this browser.');
     return;
   }
@@ -12,24 +70,20 @@ export function speakKorean(text: string | undefined | null) {
   window.speechSynthesis.cancel();
 
   const utterance = new SpeechSynthesisUtterance(trimmed);
+  const settings = loadSpeechSettings(language);
 
+  // Without a matching voice the locale still lets the browser pick one of its own
+  utterance.lang = LOCALES[language];
   try {
-    const voices = window.speechSynthesis.getVoices();
-    const koVoice =
-      voices.find(v => v.lang?.toLowerCase().startsWith('ko')) ||
-      voices.find(v => v.lang?.toLowerCase().includes('ko-kr'));
-    if (koVoice) {
-      utterance.voice = koVoice;
-    } else {
-      utterance.lang = 'ko-KR';
-    }
+    const voice = pickVoice(language, settings.voiceURI);
+    if (voice) utterance.voice = voice;
   } catch {
-    utterance.lang = 'ko-KR';
+    // getVoices() can throw while the voice list is still loading
   }
 
-  utterance.rate = 1;
-  utterance.pitch = 1;
+  // The slow dictation factor may go below the settings range; the API itself allows 0.1-10
+  utterance.rate = Math.max(0.1, settings.rate * rateFactor);
+  utterance.pitch = settings.pitch;
 
   window.speechSynthesis.speak(utterance);
 }
-
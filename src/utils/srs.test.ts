@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import {
+  QUALITY_ALMOST,
+  QUALITY_CORRECT,
+  QUALITY_WRONG,
+  getLearnedIds,
+  isLearned,
+  resetReview,
+  reviewItem,
+  withHints
+} from './srs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = Date.UTC(2024, 0, 1);
+
+describe('reviewItem', () => {
+  it('spaces successful reviews 1, 6, then interval × ease days apart', () => {
+    const first = reviewItem(undefined, QUALITY_CORRECT, now);
+    expect(first.interval).toBe(1);
+    expect(first.due).toBe(now + DAY_MS);
+    const second = reviewItem(first, QUALITY_CORRECT, now);
+    expect(second.interval).toBe(6);
+    const third = reviewItem(second, QUALITY_CORRECT, now);
+    expect(third.interval).toBe(Math.round(6 * third.ease));
+    expect(third.repetitions).toBe(3);
+  });
+
+  it('grows the ease less for an almost-correct answer', () => {
+    const correct = reviewItem(undefined, QUALITY_CORRECT, now);
+    const almost = reviewItem(undefined, QUALITY_ALMOST, now);
+    expect(almost.ease).toBeLessThan(correct.ease);
+    expect(almost.repetitions).toBe(1);
+  });
+
+  it('restarts a forgotten item and counts a lapse only once it was learned', () => {
+    const unseen = reviewItem(undefined, QUALITY_WRONG, now);
+    expect(unseen.repetitions).toBe(0);
+    expect(unseen.lapses).toBe(0);
+    const learned = reviewItem(undefined, QUALITY_CORRECT, now);
+    const forgotten = reviewItem(learned, QUALITY_WRONG, now);
+    expect(forgotten.repetitions).toBe(0);
+    expect(forgotten.lapses).toBe(1);
+    expect(forgotten.due).toBeLessThan(now + DAY_MS);
+  });
+
+  it('never lets the ease fall below 1.3', () => {
+    let state = reviewItem(undefined, 0, now);
+    for (let i = 0; i < 20; i++) state = reviewItem(state, 0, now);
+    expect(state.ease).toBe(1.3);
+  });
+});
+
+describe('withHints', () => {
+  it('takes one quality point per hint', () => {
+    expect(withHints(QUALITY_CORRECT, 0)).toBe(QUALITY_CORRECT);
+    expect(withHints(QUALITY_CORRECT, 1)).toBe(QUALITY_ALMOST);
+  });
+
+  it('keeps a correct answer a success however many hints were used', () => {
+    expect(withHints(QUALITY_CORRECT, 2)).toBe(QUALITY_ALMOST);
+    expect(withHints(QUALITY_CORRECT, 4)).toBe(QUALITY_ALMOST);
+    const learned = reviewItem(undefined, QUALITY_CORRECT, now);
+    expect(reviewItem(learned, withHints(QUALITY_CORRECT, 3), now).repetitions).toBe(2);
+  });
+
+  it('brings a correct answer back sooner with every hint', () => {
+    const dues = (state?: ReturnType<typeof reviewItem>) =>
+      [0, 1, 2, 3].map(hints => reviewItem(state, withHints(QUALITY_CORRECT, hints), now, hints).due);
+    const learned = reviewItem(reviewItem(undefined, QUALITY_CORRECT, now), QUALITY_CORRECT, now);
+    [dues(), dues(learned)].forEach(([none, one, two, three]) => {
+      expect(one).toBeLessThan(none);
+      expect(two).toBeLessThan(one);
+      expect(three).toBeLessThan(two);
+      expect(three).toBeGreaterThan(now);
+    });
+  });
+
+  it('keeps the interval growing after hinted answers', () => {
+    let state = reviewItem(undefined, withHints(QUALITY_CORRECT, 3), now, 3);
+    for (let i = 0; i < 3; i++) state = reviewItem(state, withHints(QUALITY_CORRECT, 3), now, 3);
+    state = reviewItem(state, QUALITY_CORRECT, now);
+    expect(state.interval).toBeGreaterThanOrEqual(1);
+  });
+
+  it('keeps a wrong answer wrong', () => {
+    expect(withHints(QUALITY_WRONG, 1)).toBe(0);
+    expect(withHints(QUALITY_WRONG, 3)).toBe(0);
+  });
+});
+
+describe('isLearned and resetReview', () => {
+  it('treats an item as learned until it is due', () => {
+    const state = reviewItem(undefined, QUALITY_CORRECT, now);
+    expect(isLearned(state, now)).toBe(true);
+    expect(isLearned(state, now + 2 * DAY_MS)).toBe(false);
+    expect(getLearnedIds({ a: state, b: reviewItem(undefined, QUALITY_WRONG, now) }, now)).toEqual(new Set(['a']));
+  });
+
+  it('makes an item due now but keeps its ease and lapses', () => {
+    const state = reviewItem(reviewItem(undefined, QUALITY_CORRECT, now), QUALITY_CORRECT, now);
+    const reset = resetReview(state, now)!;
+    expect(isLearned(reset, now)).toBe(false);
+    expect(reset.ease).toBe(state.ease);
+    expect(reset.lapses).toBe(state.lapses);
+    expect(resetReview(undefined, now)).toBeUndefined();
+  });
+});
@@ -0,0 +1,90 @@
+// SM-2 style spaced-repetition scheduling shared by flashcards, check and sentence check
+
+export type ReviewState = {
+  ease: number; // easiness factor, never below MIN_EASE
+  interval: number; // days until the next review after a successful answer
+  repetitions: number; // successful reviews in a row
+  lapses: number; // how many times the item was forgotten
+  due: number; // timestamp (ms) when the item should be reviewed again
+  lastReviewed: number;
+};
+
+// Map of item id -> review state, stored per card (and per study mode)
+export type Schedule = Record<string, ReviewState>;
+
+// 0-5 like SM-2: below 3 counts as forgotten
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+export const QUALITY_CORRECT: ReviewQuality = 4;
+// Correct with a small typo: still a success, but the ease grows less
+export const QUALITY_ALMOST: ReviewQuality = 3;
+export const QUALITY_WRONG: ReviewQuality = 1;
+
+// Every hint taken costs one quality point, but a correct answer stays at QUALITY_ALMOST or above:
+// it is still a success, its ease grows less and reviewItem brings it back sooner per hint
+export function withHints(quality: ReviewQuality, hintsUsed: number): ReviewQuality {
+  const lowered = Math.max(0, quality - hintsUsed) as ReviewQuality;
+  return quality >= QUALITY_ALMOST ? (Math.max(QUALITY_ALMOST, lowered) as ReviewQuality) : lowered;
+}
+
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A forgotten item comes back after a short relearning step
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+
+// hintsUsed divides the next interval of a successful answer: one hint halves it, two leave a third
+export function reviewItem(state: ReviewState | undefined, quality: ReviewQuality, now = Date.now(), hintsUsed = 0): ReviewState {
+  const prev: ReviewState = state ?? {
+    ease: DEFAULT_EASE,
+    interval: 0,
+    repetitions: 0,
+    lapses: 0,
+    due: now,
+    lastReviewed: 0
+  };
+  const ease = Math.max(MIN_EASE, prev.ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+  if (quality < 3) {
+    return {
+      ease,
+      interval: 0,
+      repetitions: 0,
+      // Only count a lapse when the item had actually been learned before
+      lapses: prev.repetitions > 0 ? prev.lapses + 1 : prev.lapses,
+      due: now + RELEARN_DELAY_MS,
+      lastReviewed: now
+    };
+  }
+
+  const repetitions = prev.repetitions + 1;
+  const fullInterval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.max(1, Math.round(prev.interval * ease));
+  const interval = fullInterval / (1 + Math.max(0, hintsUsed));
+  return {
+    ease,
+    interval,
+    repetitions,
+    lapses: prev.lapses,
+    due: now + interval * DAY_MS,
+    lastReviewed: now
+  };
+}
+
+// An item counts as learned while it has a successful streak and is not due yet
+export function isLearned(state: ReviewState | undefined, now = Date.now()): boolean {
+  return !!state && state.repetitions > 0 && state.due > now;
+}
+
+export function getLearnedIds(schedule: Schedule, now = Date.now()): Set<string> {
+  const ids = new Set<string>();
+  for (const [id, state] of Object.entries(schedule)) {
+    if (isLearned(state, now)) ids.add(id);
+  }
+  return ids;
+}
+
+// Make an item due again right away without dropping its history
+export function resetReview(state: ReviewState | undefined, now = Date.now()): ReviewState | undefined {
+  if (!state) return undefined;
+  return { ...state, repetitions: 0, interval: 0, due: now };
+}
@@ -0,0 +1,1043 @@
+import type { Card, CardCategory, TrashedCard, StudyItem, NoteItem, SentenceItem } from '../types';
+import { getStudyLanguage, setStudyLanguage, type StudyLanguage } from './language';
+import type { ReviewState, Schedule } from './srs';
+import { ITEMS_STORE, KV_STORE, requestToPromise, scopeRange, withTransaction, type ItemRecord } from './db';
+
+// Single place that knows how data is laid out in IndexedDB.
+// Every key is scoped by study language: korean-study:<ko|ja>:<key>
+// Card items live one record per item in the items store; everything else is a small
+// string value in the kv store, mirrored in memory so those reads stay synchronous.
+
+const STORAGE_PREFIX = 'korean-study:';
+const LANGUAGES: StudyLanguage[] = ['ko', 'ja'];
+const SCHEMA_VERSION_KEY = `${STORAGE_PREFIX}schema-version`;
+// The language choice stays in localStorage, it is read before storage is ready
+const LANGUAGE_KEY = `${STORAGE_PREFIX}language`;
+// Keys shared by every language (the language choice itself and the schema version)
+const GLOBAL_KEYS = new Set([LANGUAGE_KEY, SCHEMA_VERSION_KEY]);
+const WRONG_IDS_TTL_MS = 8 * 60 * 60 * 1000;
+const CARD_CATEGORIES: CardCategory[] = ['vocab', 'grammar', 'notes', 'sentences'];
+const PROGRESS_MODES: ProgressMode[] = ['flashcards', 'check', 'check-wrong', 'check-vi', 'check-wrong-vi', 'check-en', 'check-wrong-en'];
+const CHECK_DIRECTIONS: CheckDirection[] = ['to-target', 'to-vietnamese', 'to-english', 'mixed'];
+
+type CategoryItems = {
+  vocab: StudyItem;
+  grammar: StudyItem;
+  notes: NoteItem;
+  sentences: SentenceItem;
+};
+
+export type ItemOf<C extends CardCategory> = CategoryItems[C];
+
+// flashcards: FlashcardModal, check: CheckPage/SentenceCheckPage, check-wrong: check limited to wrong items.
+// -vi / -en: CheckPage answered in Vietnamese / English instead of the study language.
+export type ProgressMode = 'flashcards' | 'check' | 'check-wrong' | 'check-vi' | 'check-wrong-vi' | 'check-en' | 'check-wrong-en';
+
+// What CheckPage asks for: the study language (default), the Vietnamese or English meaning
+export type AnswerDirection = 'to-target' | 'to-vietnamese' | 'to-english';
+// mixed: a direction is picked for every question
+export type CheckDirection = AnswerDirection | 'mixed';
+
+export type ReviewSettings = {
+  newPerDay: number;
+  reviewsPerDay: number;
+};
+
+export type GradingSettings = {
+  tolerance: number; // jamo edits still accepted as correct, 0 = exact match only
+};
+
+export type SpeechSettings = {
+  voiceURI: string; // empty = first voice for the language's locale
+  rate: number;
+  pitch: number;
+};
+
+export type RomajiSettings = {
+  enabled: boolean;
+  katakana: boolean; // romaji becomes katakana instead of hiragana
+};
+
+export type DailyReviewCounter = {
+  day: string;
+  newIds: string[];
+  reviewedIds: string[];
+};
+
+// Build a storage key scoped to the study language, e.g. storageKey('vocab:Bài 1')
+// -> 'korean-study:ko:vocab:Bài 1'
+export function storageKey(key: string, language: StudyLanguage = getStudyLanguage()): string {
+  return `${STORAGE_PREFIX}${language}:${key}`;
+}
+
+// category or category:cardId - the scope every per-card key is built from
+function scope(category: string, cardId?: string): string {
+  return cardId ? `${category}:${cardId}` : category;
+}
+
+// Per-card keys use the card's generated id (Card.id); the card name is display-only.
+// The optional language is only passed by migrations, everything else uses the current one.
+const keys = {
+  cards: (category: CardCategory, language?: StudyLanguage) => storageKey(`cards:${category}`, language),
+  trash: (category: CardCategory, language?: StudyLanguage) => storageKey(`trash:${category}`, language),
+  items: (category: CardCategory, cardId?: string, language?: StudyLanguage) => storageKey(scope(category, cardId), language),
+  progress: (mode: ProgressMode, category: CardCategory, cardId?: string, language?: StudyLanguage) =>
+    storageKey(`${mode}:${scope(category, cardId)}`, language),
+  wrongOnlyFlag: (category: CardCategory, cardId?: string, language?: StudyLanguage) =>
+    storageKey(`check-wrong-only:${scope(category, cardId)}`, language),
+  checkDirection: (category: CardCategory, cardId?: string, language?: StudyLanguage) =>
+    storageKey(`check-direction:${scope(category, cardId)}`, language),
+  wrong: (category: CardCategory, cardId?: string, language?: StudyLanguage) => storageKey(`wrong:${scope(category, cardId)}`, language),
+  inputHistory: (sentenceId: string, cardId?: string, language?: StudyLanguage) =>
+    storageKey(`sentence-input-history:${cardId ? `${cardId}:` : ''}${sentenceId}`, language),
+  reviewSettings: () => storageKey('review:settings'),
+  gradingSettings: () => storageKey('grading:settings'),
+  speechSettings: (language?: StudyLanguage) => storageKey('speech:settings', language),
+  hangulKeyboard: () => storageKey('hangul-keyboard'),
+  romajiSettings: () => storageKey('romaji:settings'),
+  hideFurigana: () => storageKey('furigana:hidden'),
+  reviewDaily: (language?: StudyLanguage) => storageKey('review:daily', language)
+};
+
+const kvCache = new Map<string, string>();
+let errorReported = false;
+
+// Writes used to fail silently once localStorage was full; make sure the user hears about it
+function reportStorageError(error: unknown) {
+  console.error('Saving to IndexedDB failed:', error);
+  if (errorReported) return;
+  errorReported = true;
+  window.alert('Không thể lưu dữ liệu vào trình duyệt. Thay đổi gần đây có thể bị mất.');
+}
+
+// ---- Cross-tab sync ----
+// Tabs tell each other what they wrote; the receiving tab re-reads it from IndexedDB
+// (never trusting the message payload) and announces it with a storage-sync window event.
+
+export type StorageChange =
+  | { kind: 'values'; keys: string[] }
+  | { kind: 'items'; scope: string }
+  | { kind: 'reset' };
+
+const SYNC_EVENT = 'storage-sync';
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel('korean-study-sync') : null;
+
+function broadcast(change: StorageChange) {
+  channel?.postMessage(change);
+}
+
+function announce(change: StorageChange) {
+  window.dispatchEvent(new CustomEvent<StorageChange>(SYNC_EVENT, { detail: change }));
+}
+
+async function reloadValues(keysToLoad: string[] | null) {
+  await withTransaction(KV_STORE, 'readonly', async tx => {
+    const store = tx.objectStore(KV_STORE);
+    if (!keysToLoad) {
+      const [storedKeys, values] = await Promise.all([
+        requestToPromise(store.getAllKeys()),
+        requestToPromise(store.getAll())
+      ]);
+      kvCache.clear();
+      storedKeys.forEach((key, i) => kvCache.set(String(key), String(values[i])));
+      return;
+    }
+    const values = await Promise.all(keysToLoad.map(key => requestToPromise(store.get(key))));
+    keysToLoad.forEach((key, i) => {
+      if (values[i] == null) kvCache.delete(key);
+      else kvCache.set(key, String(values[i]));
+    });
+  });
+}
+
+if (channel) {
+  channel.onmessage = (event: MessageEvent<StorageChange>) => {
+    const change = event.data;
+    const reload = change.kind === 'values' ? reloadValues(change.keys)
+      : change.kind === 'reset' ? reloadValues(null)
+      : Promise.resolve();
+    reload.then(() => announce(change)).catch(error => console.error('Storage sync failed:', error));
+  };
+}
+
+// Pages call this from an effect and return the unsubscribe function
+export function onStorageSync(listener: (change: StorageChange) => void): () => void {
+  const handler = (event: Event) => listener((event as CustomEvent<StorageChange>).detail);
+  window.addEventListener(SYNC_EVENT, handler);
+  return () => window.removeEventListener(SYNC_EVENT, handler);
+}
+
+function persist(key: string, value: string | null) {
+  withTransaction(KV_STORE, 'readwrite', tx => {
+    const store = tx.objectStore(KV_STORE);
+    if (value == null) store.delete(key);
+    else store.put(value, key);
+  })
+    .then(() => broadcast({ kind: 'values', keys: [key] }))
+    .catch(reportStorageError);
+}
+
+// Read-modify-write of one JSON value inside a single IndexedDB transaction, so two tabs
+// changing different entries of the same value (e.g. two items of one schedule) both win.
+// The cache is updated right away and corrected once the stored value has been merged.
+function updateJSON<T>(key: string, fallback: T, update: (value: T) => T): T {
+  const next = update(readJSON(key, fallback));
+  kvCache.set(key, JSON.stringify(next));
+  withTransaction(KV_STORE, 'readwrite', async tx => {
+    const store = tx.objectStore(KV_STORE);
+    const stored = await requestToPromise(store.get(key)) as string | undefined;
+    let base = fallback;
+    try {
+      if (stored) base = JSON.parse(stored) as T;
+    } catch {
+      // unreadable value, start over from the fallback
+    }
+    const merged = JSON.stringify(update(base));
+    store.put(merged, key);
+    return merged;
+  })
+    .then(merged => {
+      kvCache.set(key, merged);
+      broadcast({ kind: 'values', keys: [key] });
+    })
+    .catch(reportStorageError);
+  return next;
+}
+
+function getRaw(key: string): string | null {
+  return kvCache.get(key) ?? null;
+}
+
+function setRaw(key: string, value: string) {
+  kvCache.set(key, value);
+  persist(key, value);
+}
+
+function removeRaw(key: string) {
+  if (!kvCache.delete(key)) return;
+  persist(key, null);
+}
+
+function readJSON<T>(key: string, fallback: T): T {
+  const raw = getRaw(key);
+  if (!raw) return fallback;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+function writeJSON(key: string, value: unknown) {
+  setRaw(key, JSON.stringify(value));
+}
+
+function moveKey(oldKey: string, newKey: string) {
+  const raw = getRaw(oldKey);
+  if (raw == null) return;
+  setRaw(newKey, raw);
+  removeRaw(oldKey);
+}
+
+function toRecords<T extends { id: string }>(scopeKey: string, items: T[], firstPosition = 0): ItemRecord<T>[] {
+  return items.map((item, i) => ({ scope: scopeKey, id: item.id, position: firstPosition + i, data: item }));
+}
+
+async function loadRecords<T>(scopeKey: string): Promise<ItemRecord<T>[]> {
+  const records = await withTransaction(ITEMS_STORE, 'readonly', tx =>
+    requestToPromise(tx.objectStore(ITEMS_STORE).getAll(scopeRange(scopeKey)))
+  );
+  return (records as ItemRecord<T>[]).sort((a, b) => a.position - b.position);
+}
+
+async function replaceRecords(scopeKey: string, records: ItemRecord[]) {
+  await withTransaction(ITEMS_STORE, 'readwrite', tx => {
+    const store = tx.objectStore(ITEMS_STORE);
+    store.delete(scopeRange(scopeKey));
+    records.forEach(record => store.put(record));
+  });
+}
+
+function uniqueCardName(name: string, cards: Card[]): string {
+  const taken = new Set(cards.map(c => c.name.trim().toLowerCase()));
+  let candidate = name;
+  for (let n = 2; taken.has(candidate.trim().toLowerCase()); n++) candidate = `${name} (${n})`;
+  return candidate;
+}
+
+export const cardsRepository = {
+  load(category: CardCategory): Card[] {
+    return readJSON<Card[]>(keys.cards(category), []);
+  },
+  save(category: CardCategory, cards: Card[]) {
+    writeJSON(keys.cards(category), cards);
+  },
+  // Whether a change from another tab touched this category's card list or trash
+  isAffected(change: StorageChange, category: CardCategory): boolean {
+    if (change.kind === 'reset') return true;
+    return change.kind === 'values' && (change.keys.includes(keys.cards(category)) || change.keys.includes(keys.trash(category)));
+  },
+  find(category: CardCategory, cardId?: string): Card | undefined {
+    return cardId ? cardsRepository.load(category).find(c => c.id === cardId) : undefined;
+  },
+  loadTrash(category: CardCategory): TrashedCard[] {
+    return readJSON<TrashedCard[]>(keys.trash(category), []);
+  },
+  // The card leaves the list but everything stored for it stays until purge()
+  moveToTrash(category: CardCategory, cardId: string) {
+    const cards = cardsRepository.load(category);
+    const card = cards.find(c => c.id === cardId);
+    if (!card) return;
+    cardsRepository.save(category, cards.filter(c => c.id !== cardId));
+    writeJSON(keys.trash(category), [{ ...card, deletedAt: Date.now() }, ...cardsRepository.loadTrash(category)]);
+  },
+  // Card names are unique (case-insensitive), so a card whose name was taken meanwhile comes back
+  // as "Bài 1 (2)"; returns the name it was restored under
+  restore(category: CardCategory, cardId: string): string | undefined {
+    const trash = cardsRepository.loadTrash(category);
+    const trashed = trash.find(c => c.id === cardId);
+    if (!trashed) return undefined;
+    const cards = cardsRepository.load(category);
+    const card: Card = { id: trashed.id, name: uniqueCardName(trashed.name, cards), createdAt: trashed.createdAt };
+    writeJSON(keys.trash(category), trash.filter(c => c.id !== cardId));
+    cardsRepository.save(category, [card, ...cards]);
+    return card.name;
+  },
+  // Remove a trashed card and every key that belongs to it
+  async purge(category: CardCategory, cardId: string) {
+    writeJSON(keys.trash(category), cardsRepository.loadTrash(category).filter(c => c.id !== cardId));
+    await deleteCardData(category, cardId).catch(reportStorageError);
+  }
+};
+
+export const itemsRepository = {
+  async load<C extends CardCategory>(category: C, cardId?: string): Promise<ItemOf<C>[]> {
+    const records = await loadRecords<ItemOf<C>>(keys.items(category, cardId));
+    return records.map(record => record.data);
+  },
+  // Replace every item of a card (clear all, bulk rewrites)
+  async save<C extends CardCategory>(category: C, items: ItemOf<C>[], cardId?: string) {
+    const scopeKey = keys.items(category, cardId);
+    await replaceRecords(scopeKey, toRecords(scopeKey, items))
+      .then(() => broadcast({ kind: 'items', scope: scopeKey }))
+      .catch(reportStorageError);
+  },
+  // Insert or update single items; existing items keep their place, new ones go to the end
+  async put<C extends CardCategory>(category: C, items: ItemOf<C>[], cardId?: string) {
+    if (items.length === 0) return;
+    const scopeKey = keys.items(category, cardId);
+    await withTransaction(ITEMS_STORE, 'readwrite', async tx => {
+      const store = tx.objectStore(ITEMS_STORE);
+      const existing = await requestToPromise(store.getAll(scopeRange(scopeKey))) as ItemRecord[];
+      const positions = new Map(existing.map(record => [record.id, record.position]));
+      let next = existing.reduce((max, record) => Math.max(max, record.position + 1), 0);
+      items.forEach(item => {
+        const position = positions.get(item.id) ?? next++;
+        store.put({ scope: scopeKey, id: item.id, position, data: item });
+      });
+    })
+      .then(() => broadcast({ kind: 'items', scope: scopeKey }))
+      .catch(reportStorageError);
+  },
+  async remove(category: CardCategory, id: string, cardId?: string) {
+    const scopeKey = keys.items(category, cardId);
+    await withTransaction(ITEMS_STORE, 'readwrite', tx => {
+      tx.objectStore(ITEMS_STORE).delete([scopeKey, id]);
+    })
+      .then(() => broadcast({ kind: 'items', scope: scopeKey }))
+      .catch(reportStorageError);
+  },
+  // Whether a change from another tab touched this card's items
+  isAffected(change: StorageChange, category: CardCategory, cardId?: string): boolean {
+    return change.kind === 'reset' || (change.kind === 'items' && change.scope === keys.items(category, cardId));
+  }
+};
+
+export const progressRepository = {
+  load(mode: ProgressMode, category: CardCategory, cardId?: string): Schedule {
+    const schedule = readJSON<Schedule | null>(keys.progress(mode, category, cardId), null);
+    return schedule && typeof schedule === 'object' && !Array.isArray(schedule) ? schedule : {};
+  },
+  save(mode: ProgressMode, category: CardCategory, schedule: Schedule, cardId?: string) {
+    writeJSON(keys.progress(mode, category, cardId), schedule);
+  },
+  // Change a single item's review state (undefined removes it) and return the whole schedule.
+  // Only that item is written, so other tabs reviewing other items of the card are not overwritten.
+  updateItem(
+    mode: ProgressMode,
+    category: CardCategory,
+    itemId: string,
+    update: (state: ReviewState | undefined) => ReviewState | undefined,
+    cardId?: string
+  ): Schedule {
+    return updateJSON<Schedule>(keys.progress(mode, category, cardId), {}, schedule => {
+      const next = { ...schedule };
+      const state = update(schedule[itemId]);
+      if (state) next[itemId] = state;
+      else delete next[itemId];
+      return next;
+    });
+  },
+  clear(mode: ProgressMode, category: CardCategory, cardId?: string) {
+    removeRaw(keys.progress(mode, category, cardId));
+  },
+  // Check progress in every direction, wrong-only check progress and the wrong-only flag
+  clearCheck(category: CardCategory, cardId?: string) {
+    PROGRESS_MODES.filter(mode => mode !== 'flashcards').forEach(mode => removeRaw(keys.progress(mode, category, cardId)));
+    removeRaw(keys.wrongOnlyFlag(category, cardId));
+  },
+  // Forget the progress of single items in every mode, e.g. after their content changed
+  clearItems(category: CardCategory, ids: string[], cardId?: string) {
+    if (ids.length === 0) return;
+    PROGRESS_MODES.forEach(mode => {
+      const schedule = progressRepository.load(mode, category, cardId);
+      if (!ids.some(id => id in schedule)) return;
+      updateJSON<Schedule>(keys.progress(mode, category, cardId), {}, stored => {
+        const next = { ...stored };
+        ids.forEach(id => delete next[id]);
+        return next;
+      });
+    });
+  },
+  // Direction last chosen in CheckPage for this card
+  loadDirection(category: CardCategory, cardId?: string): CheckDirection {
+    const stored = getRaw(keys.checkDirection(category, cardId));
+    return CHECK_DIRECTIONS.find(direction => direction === stored) ?? 'to-target';
+  },
+  saveDirection(category: CardCategory, direction: CheckDirection, cardId?: string) {
+    if (direction === 'to-target') {
+      removeRaw(keys.checkDirection(category, cardId));
+    } else {
+      setRaw(keys.checkDirection(category, cardId), direction);
+    }
+  },
+  isWrongOnly(category: CardCategory, cardId?: string): boolean {
+    return getRaw(keys.wrongOnlyFlag(category, cardId)) === 'true';
+  },
+  setWrongOnly(category: CardCategory, enabled: boolean, cardId?: string) {
+    if (enabled) {
+      setRaw(keys.wrongOnlyFlag(category, cardId), 'true');
+    } else {
+      removeRaw(keys.wrongOnlyFlag(category, cardId));
+    }
+  },
+  // Whether a change from another tab touched this card's progress or wrong items
+  isAffected(change: StorageChange, category: CardCategory, cardId?: string): boolean {
+    if (change.kind === 'reset') return true;
+    if (change.kind !== 'values') return false;
+    const related = new Set([
+      ...PROGRESS_MODES.map(mode => keys.progress(mode, category, cardId)),
+      keys.wrongOnlyFlag(category, cardId),
+      keys.wrong(category, cardId)
+    ]);
+    return change.keys.some(key => related.has(key));
+  }
+};
+
+type StoredWrongIds = { ids: string[]; savedAt: number };
+
+function freshWrongIds(stored: StoredWrongIds | null): string[] {
+  if (!stored || !Array.isArray(stored.ids)) return [];
+  if (!stored.savedAt || Date.now() - stored.savedAt > WRONG_IDS_TTL_MS) return [];
+  return stored.ids;
+}
+
+// Wrong answers are kept for 8 hours so "Từ đã sai" shows the latest mistakes
+export const wrongItemsRepository = {
+  load(category: CardCategory, cardId?: string): Set<string> {
+    const key = keys.wrong(category, cardId);
+    const parsed = readJSON<StoredWrongIds | null>(key, null);
+    const ids = freshWrongIds(parsed);
+    if (parsed && ids.length === 0) removeRaw(key);
+    return new Set(ids);
+  },
+  save(category: CardCategory, ids: Set<string>, cardId?: string) {
+    writeJSON(keys.wrong(category, cardId), { ids: Array.from(ids), savedAt: Date.now() });
+  },
+  add(category: CardCategory, id: string, cardId?: string) {
+    updateJSON<StoredWrongIds | null>(keys.wrong(category, cardId), null, stored => {
+      const ids = freshWrongIds(stored);
+      return { ids: ids.includes(id) ? ids : [...ids, id], savedAt: Date.now() };
+    });
+  },
+  remove(category: CardCategory, ids: string[], cardId?: string) {
+    const wrongIds = wrongItemsRepository.load(category, cardId);
+    if (!ids.some(id => wrongIds.has(id))) return;
+    updateJSON<StoredWrongIds | null>(keys.wrong(category, cardId), null, stored => ({
+      ids: freshWrongIds(stored).filter(id => !ids.includes(id)),
+      savedAt: stored?.savedAt ?? Date.now()
+    }));
+  },
+  clear(category: CardCategory, cardId?: string) {
+    removeRaw(keys.wrong(category, cardId));
+  }
+};
+
+// Last wrong input per sentence, shown as a hint on the next attempt
+export const inputHistoryRepository = {
+  load(sentenceId: string, cardId?: string): string {
+    return getRaw(keys.inputHistory(sentenceId, cardId)) || '';
+  },
+  save(sentenceId: string, input: string, cardId?: string) {
+    setRaw(keys.inputHistory(sentenceId, cardId), input);
+  },
+  remove(sentenceId: string, cardId?: string) {
+    removeRaw(keys.inputHistory(sentenceId, cardId));
+  }
+};
+
+export const reviewRepository = {
+  loadSettings(fallback: ReviewSettings): ReviewSettings {
+    return { ...fallback, ...readJSON<Partial<ReviewSettings>>(keys.reviewSettings(), {}) };
+  },
+  saveSettings(settings: ReviewSettings) {
+    writeJSON(keys.reviewSettings(), settings);
+  },
+  loadDaily(): DailyReviewCounter | null {
+    return readJSON<DailyReviewCounter | null>(keys.reviewDaily(), null);
+  },
+  saveDaily(counter: DailyReviewCounter) {
+    writeJSON(keys.reviewDaily(), counter);
+  }
+};
+
+export const gradingRepository = {
+  loadSettings(fallback: GradingSettings): GradingSettings {
+    return { ...fallback, ...readJSON<Partial<GradingSettings>>(keys.gradingSettings(), {}) };
+  },
+  saveSettings(settings: GradingSettings) {
+    writeJSON(keys.gradingSettings(), settings);
+  }
+};
+
+// Voice settings live in each language's namespace; the settings page edits both languages at once
+export const speechRepository = {
+  loadSettings(fallback: SpeechSettings, language?: StudyLanguage): SpeechSettings {
+    return { ...fallback, ...readJSON<Partial<SpeechSettings>>(keys.speechSettings(language), {}) };
+  },
+  saveSettings(settings: SpeechSettings, language?: StudyLanguage) {
+    writeJSON(keys.speechSettings(language), settings);
+  }
+};
+
+// Whether the on-screen Hangul keyboard is switched on
+export const keyboardRepository = {
+  isEnabled(): boolean {
+    return readJSON<boolean>(keys.hangulKeyboard(), false);
+  },
+  setEnabled(enabled: boolean) {
+    writeJSON(keys.hangulKeyboard(), enabled);
+  }
+};
+
+export const romajiRepository = {
+  loadSettings(fallback: RomajiSettings): RomajiSettings {
+    return { ...fallback, ...readJSON<Partial<RomajiSettings>>(keys.romajiSettings(), {}) };
+  },
+  saveSettings(settings: RomajiSettings) {
+    writeJSON(keys.romajiSettings(), settings);
+  }
+};
+
+// Furigana can be hidden on the question side of flashcards and check mode
+export const furiganaRepository = {
+  isHidden(): boolean {
+    return readJSON<boolean>(keys.hideFurigana(), false);
+  },
+  setHidden(hidden: boolean) {
+    writeJSON(keys.hideFurigana(), hidden);
+  }
+};
+
+function listKeys(prefix: string): string[] {
+  return Array.from(kvCache.keys()).filter(key => key.startsWith(prefix));
+}
+
+// Keys of one language namespace with the namespace prefix stripped
+function listScopedKeys(language: StudyLanguage): string[] {
+  const prefix = storageKey('', language);
+  return listKeys(prefix).map(key => key.slice(prefix.length));
+}
+
+function isLanguageScoped(key: string): boolean {
+  return LANGUAGES.some(language => key.startsWith(storageKey('', language)));
+}
+
+async function deleteCardData(category: CardCategory, cardId: string) {
+  PROGRESS_MODES.forEach(mode => removeRaw(keys.progress(mode, category, cardId)));
+  removeRaw(keys.wrongOnlyFlag(category, cardId));
+  removeRaw(keys.checkDirection(category, cardId));
+  removeRaw(keys.wrong(category, cardId));
+  if (category === 'sentences') {
+    listKeys(keys.inputHistory('', cardId)).forEach(removeRaw);
+  }
+  const scopeKey = keys.items(category, cardId);
+  await withTransaction(ITEMS_STORE, 'readwrite', tx => {
+    tx.objectStore(ITEMS_STORE).delete(scopeRange(scopeKey));
+  });
+  broadcast({ kind: 'items', scope: scopeKey });
+}
+
+// Move everything stored for one card to another card key (used by migrations)
+async function moveCardData(category: CardCategory, from: string, to: string, language: StudyLanguage) {
+  PROGRESS_MODES.forEach(mode => {
+    moveKey(keys.progress(mode, category, from, language), keys.progress(mode, category, to, language));
+  });
+  moveKey(keys.wrongOnlyFlag(category, from, language), keys.wrongOnlyFlag(category, to, language));
+  moveKey(keys.checkDirection(category, from, language), keys.checkDirection(category, to, language));
+  moveKey(keys.wrong(category, from, language), keys.wrong(category, to, language));
+  if (category === 'sentences') {
+    const oldPrefix = keys.inputHistory('', from, language);
+    listKeys(oldPrefix).forEach(key => {
+      moveKey(key, keys.inputHistory(key.slice(oldPrefix.length), to, language));
+    });
+  }
+  const oldScope = keys.items(category, from, language);
+  const newScope = keys.items(category, to, language);
+  const records = await loadRecords(oldScope);
+  await withTransaction(ITEMS_STORE, 'readwrite', tx => {
+    const store = tx.objectStore(ITEMS_STORE);
+    store.delete(scopeRange(oldScope));
+    records.forEach(record => store.put({ ...record, scope: newScope }));
+  });
+}
+
+// ---- Schema migrations ----
+
+type Migration = {
+  version: number;
+  description: string;
+  migrate: () => void | Promise<void>;
+};
+
+const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Move data saved before language scoping into the Korean library',
+    migrate() {
+      const legacyKeys = listKeys(STORAGE_PREFIX).filter(key => !GLOBAL_KEYS.has(key) && !isLanguageScoped(key));
+      legacyKeys.forEach(key => {
+        const scopedKey = storageKey(key.slice(STORAGE_PREFIX.length), 'ko');
+        if (getRaw(scopedKey) == null) {
+          moveKey(key, scopedKey);
+        } else {
+          removeRaw(key);
+        }
+      });
+    }
+  },
+  {
+    version: 2,
+    description: 'Wrong ids saved as a plain array -> { ids, savedAt }',
+    migrate() {
+      LANGUAGES.forEach(language => {
+        listScopedKeys(language).filter(key => key.startsWith('wrong:')).forEach(key => {
+          const fullKey = storageKey(key, language);
+          const parsed = readJSON<unknown>(fullKey, null);
+          if (Array.isArray(parsed)) {
+            writeJSON(fullKey, { ids: parsed, savedAt: Date.now() });
+          }
+        });
+      });
+    }
+  },
+  {
+    version: 3,
+    description: 'Sentence progress uses the same key shape as the other categories',
+    migrate() {
+      LANGUAGES.forEach(language => {
+        listScopedKeys(language).forEach(key => {
+          const match = /^sentence-correct(-wrong)?:(?:(.*):)?all$/.exec(key);
+          if (!match) return;
+          const mode: ProgressMode = match[1] ? 'check-wrong' : 'check';
+          const cardId = match[2];
+          moveKey(storageKey(key, language), storageKey(`${mode}:${scope('sentences', cardId)}`, language));
+        });
+      });
+    }
+  },
+  {
+    version: 4,
+    description: 'Learned ids with a fixed 8-hour expiry ({ ids, savedAt }) -> review schedules',
+    migrate() {
+      LANGUAGES.forEach(language => {
+        listScopedKeys(language)
+          .filter(key => key.startsWith('flashcards:') || key.startsWith('check:') || key.startsWith('check-wrong:'))
+          .forEach(key => {
+            const fullKey = storageKey(key, language);
+            const parsed = readJSON<{ ids?: unknown; savedAt?: number } | null>(fullKey, null);
+            if (!parsed || !Array.isArray(parsed.ids)) return;
+            const savedAt = typeof parsed.savedAt === 'number' ? parsed.savedAt : Date.now();
+            const EIGHT_HOURS_MS = 8 * 60 * 60 * 1000;
+            const schedule: Schedule = {};
+            (parsed.ids as string[]).forEach(id => {
+              schedule[id] = {
+                ease: 2.5,
+                interval: 1,
+                repetitions: 1,
+                lapses: 0,
+                due: savedAt + EIGHT_HOURS_MS,
+                lastReviewed: savedAt
+              };
+            });
+            writeJSON(fullKey, schedule);
+          });
+      });
+    }
+  },
+  {
+    version: 5,
+    description: 'Card items saved as one JSON array per card -> one IndexedDB record per item',
+    async migrate() {
+      for (const language of LANGUAGES) {
+        const itemKeys = listScopedKeys(language).filter(key => /^(vocab|grammar|notes|sentences)(:|$)/.test(key));
+        for (const key of itemKeys) {
+          const fullKey = storageKey(key, language);
+          const parsed = readJSON<unknown>(fullKey, null);
+          if (Array.isArray(parsed)) {
+            const items = (parsed as Array<{ id: string }>).filter(item => item && typeof item.id === 'string');
+            await replaceRecords(fullKey, toRecords(fullKey, items));
+          }
+          removeRaw(fullKey);
+        }
+      }
+    }
+  },
+  {
+    version: 6,
+    description: 'Card data keyed by card name -> keyed by the generated card id',
+    async migrate() {
+      for (const language of LANGUAGES) {
+        // 'vocab:Bài 1:' -> 'vocab:<id>:' for review queue ids counted today
+        const prefixes: Array<[string, string]> = [];
+        for (const category of CARD_CATEGORIES) {
+          for (const card of readJSON<Card[]>(keys.cards(category, language), [])) {
+            if (!card.id || card.id === card.name) continue;
+            await moveCardData(category, card.name, card.id, language);
+            prefixes.push([`${category}:${card.name}:`, `${category}:${card.id}:`]);
+          }
+        }
+        const counter = readJSON<DailyReviewCounter | null>(keys.reviewDaily(language), null);
+        if (!counter || prefixes.length === 0) continue;
+        const rekey = (id: string) => {
+          const match = prefixes.find(([from]) => id.startsWith(from));
+          return match ? match[1] + id.slice(match[0].length) : id;
+        };
+        writeJSON(keys.reviewDaily(language), { ...counter, newIds: counter.newIds.map(rekey), reviewedIds: counter.reviewedIds.map(rekey) });
+      }
+    }
+  }
+];
+
+export const SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+export function getSchemaVersion(): number {
+  return Number(getRaw(SCHEMA_VERSION_KEY)) || 0;
+}
+
+// Load the kv store into memory and take over whatever is still in localStorage.
+// Must finish before anything reads from the repositories.
+export async function initStorage() {
+  await withTransaction(KV_STORE, 'readonly', async tx => {
+    const store = tx.objectStore(KV_STORE);
+    const [storedKeys, values] = await Promise.all([
+      requestToPromise(store.getAllKeys()),
+      requestToPromise(store.getAll())
+    ]);
+    storedKeys.forEach((key, i) => kvCache.set(String(key), String(values[i])));
+  });
+  await importLocalStorage();
+}
+
+// One-time move of data saved before IndexedDB. Keys already in IndexedDB win;
+// localStorage is only cleared once the copy is committed.
+async function importLocalStorage() {
+  const legacy: Array<[string, string]> = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key || !key.startsWith(STORAGE_PREFIX) || key === LANGUAGE_KEY) continue;
+    legacy.push([key, localStorage.getItem(key) ?? '']);
+  }
+  if (legacy.length === 0) return;
+  const imported = legacy.filter(([key]) => !kvCache.has(key));
+  await withTransaction(KV_STORE, 'readwrite', tx => {
+    const store = tx.objectStore(KV_STORE);
+    imported.forEach(([key, value]) => store.put(value, key));
+  });
+  imported.forEach(([key, value]) => kvCache.set(key, value));
+  legacy.forEach(([key]) => localStorage.removeItem(key));
+}
+
+// Run every migration newer than the stored schema version, in order
+export async function runMigrations() {
+  const current = getSchemaVersion();
+  for (const migration of migrations) {
+    if (migration.version <= current) continue;
+    try {
+      await migration.migrate();
+      setRaw(SCHEMA_VERSION_KEY, String(migration.version));
+    } catch (error) {
+      console.error(`Migration ${migration.version} failed (${migration.description}):`, error);
+      return;
+    }
+  }
+}
+
+// ---- Backup / restore ----
+
+const BACKUP_APP = 'korean-study';
+const BACKUP_VERSION = 1;
+
+// Every language's cards, items, progress and settings. Keys are stored without the
+// korean-study: prefix, e.g. values['ko:cards:vocab'], items['ko:vocab:Bài 1'].
+export type LibraryBackup = {
+  app: typeof BACKUP_APP;
+  version: number; // backup file format
+  schemaVersion: number; // storage layout the keys below follow
+  exportedAt: number;
+  values: Record<string, string>;
+  items: Record<string, Array<{ id: string }>>;
+  language?: StudyLanguage; // the study language setting, kept in localStorage rather than in values
+};
+
+// replace: the backup becomes the whole library; merge: only adds what is missing locally
+export type RestoreMode = 'replace' | 'merge';
+
+export async function exportLibrary(): Promise<LibraryBackup> {
+  const values: Record<string, string> = {};
+  kvCache.forEach((value, key) => {
+    if (key !== SCHEMA_VERSION_KEY) values[key.slice(STORAGE_PREFIX.length)] = value;
+  });
+  const records = await withTransaction(ITEMS_STORE, 'readonly', tx =>
+    requestToPromise(tx.objectStore(ITEMS_STORE).getAll())
+  ) as ItemRecord<{ id: string }>[];
+  const items: LibraryBackup['items'] = {};
+  records.sort((a, b) => a.position - b.position).forEach(record => {
+    const key = record.scope.slice(STORAGE_PREFIX.length);
+    (items[key] ??= []).push(record.data);
+  });
+  return {
+    app: BACKUP_APP,
+    version: BACKUP_VERSION,
+    schemaVersion: getSchemaVersion(),
+    exportedAt: Date.now(),
+    values,
+    items,
+    language: getStudyLanguage()
+  };
+}
+
+export function parseLibraryBackup(text: string): LibraryBackup {
+  let parsed: Partial<LibraryBackup>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('File sao lưu không phải JSON hợp lệ.');
+  }
+  if (!parsed || parsed.app !== BACKUP_APP || typeof parsed.values !== 'object' || typeof parsed.items !== 'object') {
+    throw new Error('File không phải bản sao lưu của ứng dụng.');
+  }
+  if (parsed.version !== BACKUP_VERSION) {
+    throw new Error(`Không hỗ trợ định dạng sao lưu phiên bản ${parsed.version}.`);
+  }
+  if (typeof parsed.schemaVersion !== 'number' || parsed.schemaVersion > SCHEMA_VERSION) {
+    throw new Error('Bản sao lưu được tạo từ phiên bản mới hơn của ứng dụng. Hãy cập nhật ứng dụng trước.');
+  }
+  return parsed as LibraryBackup;
+}
+
+export async function restoreLibrary(backup: LibraryBackup, mode: RestoreMode) {
+  const language = backup.language && LANGUAGES.includes(backup.language) ? backup.language : undefined;
+  if (mode === 'replace') {
+    await replaceLibrary(backup);
+    // Older backups are brought up to the current layout by the normal migrations
+    await runMigrations();
+    if (language) setStudyLanguage(language);
+    return;
+  }
+  if (backup.schemaVersion !== getSchemaVersion()) {
+    throw new Error('Bản sao lưu dùng định dạng dữ liệu cũ, chỉ có thể khôi phục bằng cách thay thế.');
+  }
+  await mergeLibrary(backup);
+  // Like every other value, the local choice wins; it is only taken when none was made here
+  if (language && localStorage.getItem(LANGUAGE_KEY) == null) setStudyLanguage(language);
+}
+
+async function replaceLibrary(backup: LibraryBackup) {
+  const values = new Map(Object.entries(backup.values).map(([key, value]) => [STORAGE_PREFIX + key, value]));
+  values.set(SCHEMA_VERSION_KEY, String(backup.schemaVersion));
+  await withTransaction([KV_STORE, ITEMS_STORE], 'readwrite', tx => {
+    const kv = tx.objectStore(KV_STORE);
+    const itemStore = tx.objectStore(ITEMS_STORE);
+    kv.clear();
+    itemStore.clear();
+    values.forEach((value, key) => kv.put(value, key));
+    Object.entries(backup.items).forEach(([key, items]) => {
+      toRecords(STORAGE_PREFIX + key, items).forEach(record => itemStore.put(record));
+    });
+  });
+  kvCache.clear();
+  values.forEach((value, key) => kvCache.set(key, value));
+  broadcast({ kind: 'reset' });
+}
+
+// Ids of the cards stored under a cards: or trash: key, e.g. 'ko:trash:vocab'
+function localCardIds(key: string): Set<string> {
+  return new Set(readJSON<Card[]>(STORAGE_PREFIX + key, []).map(c => c.id));
+}
+
+function isCardListKey(key: string): boolean {
+  return /^(?:(?:ko|ja):)?(?:cards|trash):/.test(key);
+}
+
+// Local data wins, except review history where the most recent review of each item is kept
+function mergeValue(key: string, local: string, incoming: string): string {
+  const scoped = key.replace(/^(ko|ja):/, '');
+  try {
+    if (scoped.startsWith('cards:')) {
+      const cards = JSON.parse(local) as Card[];
+      // A card already in the local trash stays there rather than coming back as a second copy
+      const trashed = localCardIds(key.replace('cards:', 'trash:'));
+      const ids = new Set(cards.map(c => c.id));
+      // Card data is keyed by id, so a different card with a taken name is kept under a new name
+      const merged = [...cards];
+      (JSON.parse(incoming) as Card[])
+        .filter(c => !ids.has(c.id) && !trashed.has(c.id))
+        .forEach(c => merged.push({ ...c, name: uniqueCardName(c.name, merged) }));
+      return JSON.stringify(merged);
+    }
+    if (scoped.startsWith('trash:')) {
+      // The backup's trashed cards come along so their items keep an owner, unless the card is active here
+      const trash = JSON.parse(local) as TrashedCard[];
+      const ids = new Set([...trash.map(c => c.id), ...localCardIds(key.replace('trash:', 'cards:'))]);
+      const added = (JSON.parse(incoming) as TrashedCard[]).filter(c => !ids.has(c.id));
+      return JSON.stringify([...trash, ...added]);
+    }
+    if (PROGRESS_MODES.some(mode => scoped.startsWith(`${mode}:`))) {
+      const schedule = JSON.parse(local) as Schedule;
+      Object.entries(JSON.parse(incoming) as Schedule).forEach(([id, state]) => {
+        if (!schedule[id] || state.lastReviewed > schedule[id].lastReviewed) schedule[id] = state;
+      });
+      return JSON.stringify(schedule);
+    }
+    if (scoped.startsWith('wrong:')) {
+      const a = JSON.parse(local) as { ids: string[]; savedAt: number };
+      const b = JSON.parse(incoming) as { ids: string[]; savedAt: number };
+      return JSON.stringify({ ids: Array.from(new Set([...a.ids, ...b.ids])), savedAt: Math.max(a.savedAt, b.savedAt) });
+    }
+  } catch {
+    return local;
+  }
+  return local;
+}
+
+async function mergeLibrary(backup: LibraryBackup) {
+  const values = new Map<string, string>();
+  Object.entries(backup.values).forEach(([key, incoming]) => {
+    const fullKey = STORAGE_PREFIX + key;
+    const local = getRaw(fullKey);
+    // Card lists are merged even when missing locally, as they depend on each other
+    const merged = local == null && !isCardListKey(key) ? incoming : mergeValue(key, local ?? '[]', incoming);
+    if (merged !== local) values.set(fullKey, merged);
+  });
+  await withTransaction([KV_STORE, ITEMS_STORE], 'readwrite', async tx => {
+    const kv = tx.objectStore(KV_STORE);
+    const itemStore = tx.objectStore(ITEMS_STORE);
+    values.forEach((value, key) => kv.put(value, key));
+    for (const [key, items] of Object.entries(backup.items)) {
+      const scopeKey = STORAGE_PREFIX + key;
+      const existing = await requestToPromise(itemStore.getAll(scopeRange(scopeKey))) as ItemRecord[];
+      const ids = new Set(existing.map(record => record.id));
+      const next = existing.reduce((max, record) => Math.max(max, record.position + 1), 0);
+      toRecords(scopeKey, items.filter(item => !ids.has(item.id)), next).forEach(record => itemStore.put(record));
+    }
+  });
+  values.forEach((value, key) => kvCache.set(key, value));
+  broadcast({ kind: 'reset' });
+}
+
+// ---- Maintenance ----
+
+// A stored entry no card (active or in the trash) points to any more
+export type OrphanEntry = {
+  kind: 'value' | 'items';
+  key: string; // full key for values, item scope for items
+  label: string; // key without the korean-study: prefix
+  size: number; // characters for values, item count for items
+};
+
+function knownCardIds(language: StudyLanguage, category: CardCategory): Set<string> {
+  const cards = readJSON<Card[]>(keys.cards(category, language), []);
+  const trash = readJSON<TrashedCard[]>(keys.trash(category, language), []);
+  return new Set([...cards, ...trash].map(c => c.id));
+}
+
+function isCardCategory(value: string): value is CardCategory {
+  return (CARD_CATEGORIES as string[]).includes(value);
+}
+
+// Scoped key (without the language prefix) -> whether it still belongs to something reachable
+function isReachable(scopedKey: string, cardIds: (category: CardCategory) => Set<string>): boolean {
+  const list = /^(?:cards|trash):(.+)$/.exec(scopedKey);
+  if (list) return isCardCategory(list[1]);
+  if (['review:settings', 'review:daily', 'grading:settings', 'speech:settings', 'hangul-keyboard', 'romaji:settings', 'furigana:hidden'].includes(scopedKey)) return true;
+  if (scopedKey.startsWith('sentence-input-history:')) {
+    // sentence-input-history:[<cardId>:]<sentenceId>
+    const rest = scopedKey.slice('sentence-input-history:'.length);
+    const separator = rest.indexOf(':');
+    return separator < 0 || cardIds('sentences').has(rest.slice(0, separator));
+  }
+  const perCard = new RegExp(`^(?:${[...PROGRESS_MODES, 'check-wrong-only', 'check-direction', 'wrong'].join('|')}):([^:]+)(?::(.+))?$`).exec(scopedKey);
+  if (!perCard || !isCardCategory(perCard[1])) return false;
+  return !perCard[2] || cardIds(perCard[1]).has(perCard[2]);
+}
+
+export async function findOrphans(): Promise<OrphanEntry[]> {
+  const caches = new Map<string, Set<string>>();
+  const idsFor = (language: StudyLanguage) => (category: CardCategory) => {
+    const cacheKey = `${language}:${category}`;
+    if (!caches.has(cacheKey)) caches.set(cacheKey, knownCardIds(language, category));
+    return caches.get(cacheKey)!;
+  };
+  const languageOf = (key: string) => LANGUAGES.find(language => key.startsWith(storageKey('', language)));
+
+  const orphans: OrphanEntry[] = [];
+  kvCache.forEach((value, key) => {
+    if (GLOBAL_KEYS.has(key)) return;
+    const language = languageOf(key);
+    const scopedKey = language ? key.slice(storageKey('', language).length) : '';
+    // Item arrays are never stored in the kv store any more
+    const isItemsKey = /^(vocab|grammar|notes|sentences)(:|$)/.test(scopedKey);
+    if (language && !isItemsKey && isReachable(scopedKey, idsFor(language))) return;
+    orphans.push({ kind: 'value', key, label: key.slice(STORAGE_PREFIX.length), size: value.length });
+  });
+
+  const itemKeys = await withTransaction(ITEMS_STORE, 'readonly', tx =>
+    requestToPromise(tx.objectStore(ITEMS_STORE).getAllKeys())
+  );
+  const counts = new Map<string, number>();
+  itemKeys.forEach(key => {
+    const scopeKey = String((key as [string, string])[0]);
+    counts.set(scopeKey, (counts.get(scopeKey) ?? 0) + 1);
+  });
+  counts.forEach((count, scopeKey) => {
+    const language = languageOf(scopeKey);
+    if (language) {
+      const [category, ...rest] = scopeKey.slice(storageKey('', language).length).split(':');
+      const cardId = rest.join(':');
+      if (isCardCategory(category) && (!cardId || idsFor(language)(category).has(cardId))) return;
+    }
+    orphans.push({ kind: 'items', key: scopeKey, label: scopeKey.slice(STORAGE_PREFIX.length), size: count });
+  });
+  return orphans;
+}
+
+export async function removeOrphans(entries: OrphanEntry[]) {
+  entries.filter(e => e.kind === 'value').forEach(e => removeRaw(e.key));
+  const scopes = entries.filter(e => e.kind === 'items').map(e => e.key);
+  if (scopes.length === 0) return;
+  await withTransaction(ITEMS_STORE, 'readwrite', tx => {
+    const store = tx.objectStore(ITEMS_STORE);
+    scopes.forEach(scopeKey => store.delete(scopeRange(scopeKey)));
+  });
+}